@@ -0,0 +1,416 @@
+import {
+  AppInjections,
+  EnvVar,
+  returnEnvFile,
+  returnErrorMiddleware,
+  returnIndexFile,
+  returnShutdownFile,
+} from './data.js';
+import { getFeatureSetup, PlaceholderScripts } from './features.js';
+import { FileSystem } from './filesystem.js';
+import { RegistryClient } from './registry.js';
+import {
+  DatabaseFeature,
+  FEATURES,
+  getFileExtension,
+  LANGUAGE,
+  TestRunnerFeature,
+} from './utils.js';
+
+export interface AddFeatureOptions {
+  /** Overwrite existing config files and custom scripts instead of refusing */
+  force?: boolean;
+}
+
+/**
+ * What adding a feature changed, paths relative to the project root.
+ */
+export interface AddedFeature {
+  feature: FEATURES;
+  language: LANGUAGE;
+  /** Config files written */
+  files: string[];
+  /** Packages added to package.json */
+  packages: string[];
+  /** Scripts written to package.json */
+  scripts: string[];
+  /** Existing custom scripts that were left untouched */
+  keptScripts: string[];
+  /** Environment variables added to `.env.example` */
+  env: string[];
+  /** Existing files patched to wire the feature in, e.g. `src/app.ts` */
+  updated: string[];
+}
+
+/**
+ * Index of the first line matching `pattern`, -1 when none does.
+ */
+function findLine(lines: string[], pattern: RegExp) {
+  return lines.findIndex((line) => pattern.test(line));
+}
+
+/**
+ * Where to insert lines that belong right before `lines[index]`, skipping
+ * back over the blank lines separating it from the previous block.
+ */
+function endOfPreviousBlock(lines: string[], index: number) {
+  let at = index;
+  while (at > 0 && !lines[at - 1].trim()) at--;
+  return at;
+}
+
+/**
+ * Apply a feature's app additions to the `src/app` generated by the scaffold,
+ * in the places `returnAppFile()` puts them.
+ * @returns the new content, or undefined when the file does not have the
+ * generated shape
+ */
+function patchAppFile(content: string, injections: AppInjections): string | undefined {
+  const { imports = [], middleware = [], bodyLimit, routes = [], cors } = injections;
+  let lines = content.split('\n');
+  const missing = (line: string) => !lines.some((l) => l.trim() === line);
+  if (cors) {
+    lines = lines.filter(
+      (line) => !['import cors from "cors";', 'app.use(cors());'].includes(line.trim()),
+    );
+  }
+  const newImports = imports.filter(missing);
+  if (newImports.length) {
+    let last = -1;
+    lines.forEach((line, i) => {
+      if (/^import\s/.test(line)) last = i;
+    });
+    if (last === -1) return undefined;
+    lines.splice(last + 1, 0, ...newImports);
+  }
+  const newMiddleware = middleware.filter(missing);
+  if (newMiddleware.length) {
+    const json = findLine(lines, /^app\.use\(express\.json\(/);
+    if (json === -1) return undefined;
+    lines.splice(endOfPreviousBlock(lines, json), 0, ...newMiddleware);
+  }
+  if (bodyLimit && missing(`app.use(express.json({ limit: ${bodyLimit} }));`)) {
+    const json = findLine(lines, /^app\.use\(express\.json\(\)\);$/);
+    const urlencoded = findLine(
+      lines,
+      /^app\.use\(express\.urlencoded\(\{ extended: true \}\)\);$/,
+    );
+    if (json === -1 || urlencoded === -1) return undefined;
+    lines[json] = `app.use(express.json({ limit: ${bodyLimit} }));`;
+    lines[urlencoded] = `app.use(express.urlencoded({ extended: true, limit: ${bodyLimit} }));`;
+  }
+  const newRoutes = routes.filter(missing);
+  if (newRoutes.length) {
+    const router = findLine(lines, /^app\.use\("\/api", router\);/);
+    const notFound = findLine(lines, /^app\.use\(notFound\);/);
+    if (router === -1 || notFound < router) return undefined;
+    const at = endOfPreviousBlock(lines, notFound);
+    // feature routes are a block of their own after the API router
+    lines.splice(at, 0, ...(at === router + 1 ? ['', ...newRoutes] : newRoutes));
+  }
+  return lines.join('\n');
+}
+
+/**
+ * The package that tells which database feature a project uses.
+ */
+const DatabaseClients: Record<string, string> = {
+  [FEATURES.PRISMA]: '@prisma/client',
+  [FEATURES.DRIZZLE]: 'drizzle-orm',
+  [FEATURES.MONGOOSE]: 'mongoose',
+};
+
+/**
+ * A file the scaffold writes differently once a feature is selected. It is
+ * regenerated as long as it matches one of the generated variants.
+ */
+interface Rewrite {
+  file: string;
+  /** Generated content, and what it becomes with the feature */
+  variants: { from: string; to: string }[];
+  /** What to change by hand when the file was edited */
+  step: string;
+}
+
+/**
+ * The app additions as steps to apply by hand.
+ */
+function appSteps({ imports = [], middleware = [], bodyLimit, routes = [], cors }: AppInjections) {
+  return [
+    ...imports,
+    ...middleware.map((line) => `${line} (before the body parsers)`),
+    ...(bodyLimit
+      ? [`limit: ${bodyLimit} (in the options of express.json() and express.urlencoded())`]
+      : []),
+    ...routes.map((line) => `${line} (after app.use("/api", router))`),
+    ...(cors ? ['remove app.use(cors()) and its import'] : []),
+  ];
+}
+
+/**
+ * Adds a feature to an already generated project: merges its packages and
+ * scripts into package.json, writes its config files and wires it into
+ * `src/app` like the scaffold does.
+ */
+export class FeatureInstaller {
+  constructor(
+    private fileSystem: FileSystem,
+    private registryClient = new RegistryClient(),
+  ) {}
+
+  /**
+   * TypeScript projects are the ones with a tsconfig.json.
+   */
+  detectLanguage(): LANGUAGE {
+    return this.fileSystem.exists('tsconfig.json') ? LANGUAGE.TYPESCRIPT : LANGUAGE.JAVASCRIPT;
+  }
+
+  /**
+   * Whether the project's config modules validate with Zod, judging by
+   * `src/config/env`. Projects without one follow their zod dependency.
+   */
+  private usesZodConfig(language: LANGUAGE, hasZod: boolean) {
+    const envHelper = `src/config/env${getFileExtension(language)}`;
+    if (!this.fileSystem.exists(envHelper)) return hasZod;
+    // the Zod flavour hands process.env to a schema, the built-in one has parsers
+    return this.fileSystem.readFile(envHelper).includes('schema.safeParse');
+  }
+
+  /**
+   * Append the variables missing from `.env.example`.
+   * @returns the names of the variables added
+   */
+  private addEnvVars(variables: EnvVar[]) {
+    if (!variables.length || !this.fileSystem.exists('.env.example')) return [];
+    const current = this.fileSystem.readFile('.env.example');
+    const missing = variables.filter((v) => !new RegExp(`^${v.name}=`, 'm').test(current));
+    if (!missing.length) return [];
+    // drop the header comment of a full .env.example
+    const entries = returnEnvFile(missing).split('\n').slice(1).join('\n');
+    this.fileSystem.writeFile('.env.example', current.replace(/\n*$/, '\n') + entries);
+    return missing.map((v) => v.name);
+  }
+
+  /**
+   * `.env.development` and `.env.test` with the values the feature sets for
+   * them, e.g. throwaway secrets, so the app starts without editing them.
+   * A missing file is created.
+   */
+  private envFilePatches(variables: EnvVar[]): [string, string][] {
+    return (['development', 'test'] as const).flatMap((environment): [string, string][] => {
+      const file = `.env.${environment}`;
+      const current = this.fileSystem.exists(file) ? this.fileSystem.readFile(file) : undefined;
+      const missing = variables.filter(
+        (v) =>
+          v[environment] !== undefined &&
+          !(current && new RegExp(`^${v.name}=`, 'm').test(current)),
+      );
+      if (!missing.length) return [];
+      if (current === undefined) return [[file, returnEnvFile(missing, environment)]];
+      const entries = missing.map((v) => `${v.name}=${v[environment]}`).join('\n');
+      return [[file, `${current.replace(/\n*$/, '\n')}${entries}\n`]];
+    });
+  }
+
+  /**
+   * The files the scaffold generates differently with the feature: the
+   * database connection in `src/index`, the logs of the Logging feature.
+   */
+  private rewrites(feature: FEATURES, language: LANGUAGE): Rewrite[] {
+    const logging = feature === FEATURES.LOGGING;
+    const database = (Object.values(DatabaseFeature) as string[]).includes(feature);
+    if (!logging && !database) return [];
+    const ts = language === LANGUAGE.TYPESCRIPT;
+    const ext = getFileExtension(language);
+    const logger = ts ? '@/utils/logger' : '../utils/logger.js';
+    const flags = [false, true];
+    const index: Rewrite = {
+      file: `src/index${ext}`,
+      // every variant of the scaffold, by its logging and database flags
+      variants: flags.flatMap((withLogging) =>
+        flags.map((withDatabase) => ({
+          from: returnIndexFile(language, withLogging, withDatabase),
+          to: returnIndexFile(language, withLogging || logging, withDatabase || database),
+        })),
+      ),
+      step: logging
+        ? `log the startup with logger.info(), importing logger from "./utils/logger${ts ? '' : '.js'}"`
+        : `await connectDatabase() before app.listen() and register onShutdown(disconnectDatabase), ` +
+          `importing them from "./db${ts ? '' : '/index.js'}" and "./utils/shutdown${ts ? '' : '.js'}"`,
+    };
+    if (database) return [index];
+    return [
+      index,
+      {
+        file: `src/utils/shutdown${ext}`,
+        variants: flags.map((withLogging) => ({
+          from: returnShutdownFile(language, withLogging),
+          to: returnShutdownFile(language, true),
+        })),
+        step: `log with logger instead of console, importing it from "${logger}"`,
+      },
+      {
+        file: `src/middlewares/error${ext}`,
+        variants: flags.map((withLogging) => ({
+          from: returnErrorMiddleware(language, withLogging),
+          to: returnErrorMiddleware(language, true),
+        })),
+        step: `log server errors with logger.error({ err }, "Request failed"), importing logger from "${logger}"`,
+      },
+    ];
+  }
+
+  /**
+   * Apply the feature's rewrites.
+   * @throws listing the manual steps when a file was edited since it was generated
+   */
+  private rewritePatches(feature: FEATURES, language: LANGUAGE): [string, string][] {
+    const patches: [string, string][] = [];
+    const steps: string[] = [];
+    for (const { file, variants, step } of this.rewrites(feature, language)) {
+      // nothing to wire into a file the project does not have
+      if (!this.fileSystem.exists(file)) continue;
+      const current = this.fileSystem.readFile(file).trimEnd();
+      const variant = variants.find(({ from }) => from.trimEnd() === current);
+      if (variant) patches.push([file, variant.to]);
+      else steps.push(`${file}: ${step}`);
+    }
+    if (steps.length) {
+      throw new Error(
+        `Could not wire "${feature}" into files that were changed since they were generated. ` +
+          `Add it manually:\n${steps.map((step) => `  ${step}`).join('\n')}`,
+      );
+    }
+    return patches;
+  }
+
+  /**
+   * The `src/app` with the feature's app additions, if it has any.
+   * @throws listing the manual steps when `src/app` cannot be patched
+   */
+  private patchApp(
+    feature: FEATURES,
+    language: LANGUAGE,
+    injections: AppInjections,
+  ): [string, string] | undefined {
+    const steps = appSteps(injections);
+    if (!steps.length) return undefined;
+    const file = `src/app${getFileExtension(language)}`;
+    const patched = this.fileSystem.exists(file)
+      ? patchAppFile(this.fileSystem.readFile(file), injections)
+      : undefined;
+    if (patched === undefined) {
+      throw new Error(
+        `Could not wire "${feature}" into ${file}. Add it manually:\n` +
+          steps.map((step) => `  ${step}`).join('\n'),
+      );
+    }
+    return [file, patched];
+  }
+
+  /**
+   * Add a feature. Nothing is written when a config file already exists,
+   * unless `force` is set, nor when the feature cannot be wired into the
+   * project's files; the error then lists the manual steps.
+   */
+  async addFeature(feature: FEATURES, options: AddFeatureOptions = {}): Promise<AddedFeature> {
+    if (!this.fileSystem.exists('package.json')) {
+      throw new Error(`No package.json in ${this.fileSystem.root}.`);
+    }
+    const raw = this.fileSystem.readFile('package.json');
+    const pkg = JSON.parse(raw);
+    pkg.dependencies = pkg.dependencies || {};
+    pkg.devDependencies = pkg.devDependencies || {};
+    pkg.scripts = pkg.scripts || {};
+
+    const language = this.detectLanguage();
+    const installed = (dep: string) => dep in pkg.dependencies || dep in pkg.devDependencies;
+    const features: string[] = [feature];
+    if (feature !== FEATURES.ZOD && this.usesZodConfig(language, installed('zod'))) {
+      features.push(FEATURES.ZOD);
+    }
+    // the test runner decides on test globals and feature tests
+    const runners: string[] = Object.values(TestRunnerFeature);
+    const runner = runners.find((r) => installed(r));
+    if (runner && !runners.includes(feature)) features.push(runner);
+    // so does the database, e.g. on the migrations of the Dockerfile
+    const databases = Object.keys(DatabaseClients);
+    const database = databases.find((d) => installed(DatabaseClients[d]));
+    if (database && !databases.includes(feature)) features.push(database);
+    const setup = getFeatureSetup(feature, { language, features, fileSystem: this.fileSystem });
+    const files = Object.keys(setup.files);
+    // every patch is computed before anything is written
+    const patches = new Map<string, string>();
+    const app = this.patchApp(feature, language, setup.app);
+    if (app) patches.set(...app);
+    this.rewritePatches(feature, language).forEach(([file, content]) => patches.set(file, content));
+    this.envFilePatches(setup.env).forEach(([file, content]) => patches.set(file, content));
+    const missing = [...setup.dependencies, ...setup.devDependencies].filter((d) => !installed(d));
+    const existingFiles = [...new Set([...files, ...setup.conflicts])].filter((f) =>
+      this.fileSystem.exists(f),
+    );
+    const configured = files.every((f) => this.fileSystem.exists(f));
+    if (!missing.length && configured && !options.force) {
+      throw new Error(`"${feature}" is already set up in this project.`);
+    }
+    if (existingFiles.length && !options.force) {
+      throw new Error(
+        `Cannot add "${feature}", these files already exist: ${existingFiles.join(', ')}. ` +
+          'Remove them or run again with --force to overwrite.',
+      );
+    }
+
+    await Promise.all(
+      setup.dependencies
+        .filter((d) => !installed(d))
+        .map(async (dep) => {
+          pkg.dependencies[dep] = await this.registryClient.getVersionRange(dep);
+        }),
+    );
+    await Promise.all(
+      setup.devDependencies
+        .filter((d) => !installed(d))
+        .map(async (dep) => {
+          pkg.devDependencies[dep] = await this.registryClient.getVersionRange(dep);
+        }),
+    );
+
+    const scripts: string[] = [];
+    const keptScripts: string[] = [];
+    for (const [name, command] of Object.entries(setup.scripts)) {
+      const current: string | undefined = pkg.scripts[name];
+      if (current === command) continue;
+      if (!current || PlaceholderScripts.includes(current) || options.force) {
+        pkg.scripts[name] = command;
+        scripts.push(name);
+      } else {
+        keptScripts.push(name);
+      }
+    }
+
+    Object.entries(setup.files).forEach(([file, content]) =>
+      this.fileSystem.writeFile(file, content),
+    );
+    const updated: string[] = [];
+    for (const [file, content] of patches) {
+      if (this.fileSystem.exists(file) && this.fileSystem.readFile(file) === content) continue;
+      this.fileSystem.writeFile(file, content);
+      updated.push(file);
+    }
+    const env = this.addEnvVars(setup.env);
+    this.fileSystem.writeFile(
+      'package.json',
+      JSON.stringify(pkg, null, 2) + (raw.endsWith('\n') ? '\n' : ''),
+    );
+    return {
+      feature,
+      language,
+      files,
+      packages: missing,
+      scripts,
+      keptScripts,
+      env,
+      updated,
+    };
+  }
+}
@@ -0,0 +1,275 @@
+import { parseArgs } from 'util';
+import { PromptAnswers } from './prompts.js';
+import {
+  DATABASE,
+  DatabaseFeature,
+  FEATURES,
+  LANGUAGE,
+  PACKAGEMANAGER,
+  TESTRUNNER,
+  TestRunnerFeature,
+} from './utils.js';
+
+export type CliCommand = 'create' | 'generate' | 'add';
+
+/**
+ * Options collected from the command line.
+ */
+export interface CliOptions {
+  command: CliCommand;
+  projectName?: string;
+  resourceName?: string;
+  feature?: FEATURES;
+  language?: LANGUAGE;
+  features?: FEATURES[];
+  testRunner?: TESTRUNNER;
+  database?: DATABASE;
+  packageManager?: PACKAGEMANAGER;
+  dir?: string;
+  preset?: string;
+  savePreset?: string;
+  registry?: string;
+  offline: boolean;
+  pinned: Record<string, string>;
+  force: boolean;
+  skipInstall: boolean;
+  skipGit: boolean;
+  yes: boolean;
+  dryRun: boolean;
+  inPlace: boolean;
+  recover: boolean;
+  help: boolean;
+  version: boolean;
+}
+
+/**
+ * Thrown when the command line contains unknown flags or values.
+ */
+export class UsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UsageError';
+  }
+}
+
+export const UsageText = `Usage: create-express-app [project-name] [options]
+       create-express-app generate resource <name> [--dir <project>] [--dry-run]
+       create-express-app add <feature> [--dir <project>] [--force] [--skip-install]
+
+Commands:
+  generate resource <name>  Add a route and controller (and Zod schema) to an existing project
+  add <feature>             Add a feature (${Object.values(FEATURES).join(', ')}) to an existing project
+
+Options:
+  -l, --language <lang>     Language to use: ts | js
+  -f, --features <list>     Comma separated features: ${Object.values(FEATURES).join(', ')}
+  -t, --test-runner <name>  Test runner: ${Object.values(TESTRUNNER).join(' | ')}
+      --db <name>           Database: ${Object.values(DATABASE).join(' | ')}
+      --pm <manager>        Package manager: ${Object.values(PACKAGEMANAGER).join(' | ')}
+  -d, --dir <path>          Directory to create the project in, or the existing project for
+                            generate/add (default: current directory)
+      --preset <file>       Load answers and project settings from a JSON or JS preset
+      --save-preset <file>  Save the answers to a JSON preset, to reuse with --preset
+      --registry <url>      npm registry used to resolve dependency versions
+      --offline             Use the bundled dependency versions, no network access
+      --pin <pkg@range>     Write this version range for a package (repeatable)
+      --force               add: overwrite existing config files and scripts
+      --skip-install        Do not install the dependencies (nor build), add: only update
+                            package.json
+      --skip-git            Do not init a git repository with an initial commit
+  -y, --yes                 Skip prompts and use defaults for anything not provided
+      --dry-run             Print the files that would be generated without writing them
+      --in-place            Scaffold into an existing folder, keeping its files (implied by ".")
+      --recover             Resume or clean up an interrupted scaffold of the project
+  -h, --help                Show this help
+  -v, --version             Show the CLI version`;
+
+const LanguageAliases: Record<string, LANGUAGE> = {
+  ts: LANGUAGE.TYPESCRIPT,
+  typescript: LANGUAGE.TYPESCRIPT,
+  js: LANGUAGE.JAVASCRIPT,
+  javascript: LANGUAGE.JAVASCRIPT,
+};
+
+function parseLanguage(value: string): LANGUAGE {
+  const language = LanguageAliases[value.toLowerCase()];
+  if (!language) {
+    throw new UsageError(`Unknown language "${value}". Expected one of: ts, js`);
+  }
+  return language;
+}
+
+function parseFeatures(value: string): FEATURES[] {
+  const known = Object.values(FEATURES) as string[];
+  const features = value
+    .split(',')
+    .map((f) => f.trim().toLowerCase())
+    .filter(Boolean);
+  const unknown = features.filter((f) => !known.includes(f));
+  if (unknown.length) {
+    throw new UsageError(
+      `Unknown feature(s) "${unknown.join(', ')}". Expected any of: ${known.join(', ')}`,
+    );
+  }
+  return [...new Set(features)] as FEATURES[];
+}
+
+function parseTestRunner(value: string): TESTRUNNER {
+  const known = Object.values(TESTRUNNER) as string[];
+  if (!known.includes(value.toLowerCase())) {
+    throw new UsageError(`Unknown test runner "${value}". Expected one of: ${known.join(', ')}`);
+  }
+  return value.toLowerCase() as TESTRUNNER;
+}
+
+function parseDatabase(value: string): DATABASE {
+  const known = Object.values(DATABASE) as string[];
+  if (!known.includes(value.toLowerCase())) {
+    throw new UsageError(`Unknown database "${value}". Expected one of: ${known.join(', ')}`);
+  }
+  return value.toLowerCase() as DATABASE;
+}
+
+function parsePackageManager(value: string): PACKAGEMANAGER {
+  const known = Object.values(PACKAGEMANAGER) as string[];
+  if (!known.includes(value)) {
+    throw new UsageError(
+      `Unknown package manager "${value}". Expected one of: ${known.join(', ')}`,
+    );
+  }
+  return value as PACKAGEMANAGER;
+}
+
+function parsePins(values: string[]): Record<string, string> {
+  const pinned: Record<string, string> = {};
+  for (const value of values) {
+    // the first character may be the `@` of a scoped package
+    const at = value.lastIndexOf('@');
+    if (at <= 0 || at === value.length - 1) {
+      throw new UsageError(`Invalid --pin "${value}". Expected <package>@<version>`);
+    }
+    pinned[value.slice(0, at)] = value.slice(at + 1);
+  }
+  return pinned;
+}
+
+function parseCommand(
+  positionals: string[],
+): Pick<CliOptions, 'command' | 'projectName' | 'resourceName' | 'feature'> {
+  const [first, ...rest] = positionals;
+  if (first === 'generate') {
+    const [schematic, name, ...extra] = rest;
+    if (schematic !== 'resource') {
+      throw new UsageError(
+        `Unknown generator "${schematic ?? ''}". Expected: generate resource <name>`,
+      );
+    }
+    if (!name || extra.length) {
+      throw new UsageError('Expected a single resource name: generate resource <name>');
+    }
+    return { command: 'generate', resourceName: name };
+  }
+  if (first === 'add') {
+    const features = rest.length === 1 ? parseFeatures(rest[0]) : [];
+    if (features.length !== 1) {
+      throw new UsageError('Expected a single feature: add <feature>');
+    }
+    return { command: 'add', feature: features[0] };
+  }
+  if (positionals.length > 1) {
+    throw new UsageError(`Expected a single project name, got: ${positionals.join(' ')}`);
+  }
+  return { command: 'create', projectName: first };
+}
+
+/**
+ * Parse CLI arguments (without the node and script path).
+ * @throws UsageError on unknown flags, missing values or unsupported values
+ */
+export function parseCliArgs(argv: string[]): CliOptions {
+  let parsed;
+  try {
+    parsed = parseArgs({
+      args: argv,
+      allowPositionals: true,
+      strict: true,
+      options: {
+        language: { type: 'string', short: 'l' },
+        features: { type: 'string', short: 'f' },
+        'test-runner': { type: 'string', short: 't' },
+        db: { type: 'string' },
+        pm: { type: 'string' },
+        dir: { type: 'string', short: 'd' },
+        preset: { type: 'string' },
+        'save-preset': { type: 'string' },
+        registry: { type: 'string' },
+        offline: { type: 'boolean' },
+        pin: { type: 'string', multiple: true },
+        force: { type: 'boolean' },
+        'skip-install': { type: 'boolean' },
+        'skip-git': { type: 'boolean' },
+        yes: { type: 'boolean', short: 'y' },
+        'dry-run': { type: 'boolean' },
+        'in-place': { type: 'boolean' },
+        recover: { type: 'boolean' },
+        help: { type: 'boolean', short: 'h' },
+        version: { type: 'boolean', short: 'v' },
+      },
+    });
+  } catch (err) {
+    throw new UsageError(err instanceof Error ? err.message : String(err));
+  }
+  const { values, positionals } = parsed;
+  if (values.recover && values['dry-run']) {
+    throw new UsageError('--recover cannot be combined with --dry-run');
+  }
+  return {
+    ...parseCommand(positionals),
+    language: values.language !== undefined ? parseLanguage(values.language) : undefined,
+    features: values.features !== undefined ? parseFeatures(values.features) : undefined,
+    testRunner:
+      values['test-runner'] !== undefined ? parseTestRunner(values['test-runner']) : undefined,
+    database: values.db !== undefined ? parseDatabase(values.db) : undefined,
+    packageManager: values.pm !== undefined ? parsePackageManager(values.pm) : undefined,
+    dir: values.dir,
+    preset: values.preset,
+    savePreset: values['save-preset'],
+    registry: values.registry,
+    offline: !!values.offline,
+    pinned: parsePins(values.pin ?? []),
+    force: !!values.force,
+    skipInstall: !!values['skip-install'],
+    skipGit: !!values['skip-git'],
+    yes: !!values.yes,
+    dryRun: !!values['dry-run'],
+    inPlace: !!values['in-place'],
+    recover: !!values.recover,
+    help: !!values.help,
+    version: !!values.version,
+  };
+}
+
+/**
+ * Map CLI options onto the prompt answers they pre-fill.
+ */
+export function toPromptAnswers(options: CliOptions): Partial<PromptAnswers> {
+  const answers: Partial<PromptAnswers> = {};
+  if (options.language) answers.language = options.language;
+  if (options.features) answers.features = options.features;
+  if (options.testRunner) {
+    answers.testRunner = options.testRunner;
+  } else if (options.features) {
+    // `--features jest` already answers the test runner question
+    const runners = Object.keys(TestRunnerFeature) as (keyof typeof TestRunnerFeature)[];
+    const runner = runners.find((r) => options.features?.includes(TestRunnerFeature[r]));
+    if (runner) answers.testRunner = runner;
+  }
+  if (options.database) {
+    answers.database = options.database;
+  } else if (options.features) {
+    const databases = Object.keys(DatabaseFeature) as (keyof typeof DatabaseFeature)[];
+    const database = databases.find((d) => options.features?.includes(DatabaseFeature[d]));
+    if (database) answers.database = database;
+  }
+  return answers;
+}
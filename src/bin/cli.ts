@@ -1,16 +1,133 @@
 #!/usr/bin/env node
 import chalk from 'chalk';
+import fs from 'fs';
+import path from 'path';
 import { ProjectBuilder } from '../builder/index.js';
+import { RegistryClient } from '../registry.js';
+import { DiskFileSystem, MemoryFileSystem } from '../filesystem.js';
+import { ResourceGenerator } from '../generate.js';
+import { FeatureInstaller } from '../add.js';
+import { detectProjectPackageManager, execAsync, FEATURES, InstallCommands } from '../utils.js';
+import ora from 'ora';
+import { formatDryRun } from '../preview.js';
+import { loadPreset, savePreset } from '../preset.js';
+import { CliOptions, parseCliArgs, toPromptAnswers, UsageError, UsageText } from '../args.js';
+
+function readVersion(): string {
+  const pkgPath = new URL('../../package.json', import.meta.url);
+  return JSON.parse(fs.readFileSync(pkgPath, 'utf-8')).version;
+}
+
+function generateResource(options: CliOptions) {
+  const root = path.resolve(options.dir ?? process.cwd());
+  const fileSystem = options.dryRun ? new MemoryFileSystem(root) : new DiskFileSystem(root);
+  const result = new ResourceGenerator(fileSystem).generateResource(options.resourceName as string);
+  if (fileSystem instanceof MemoryFileSystem) {
+    console.log(formatDryRun(path.basename(root), fileSystem.generatedFiles()));
+    console.log(chalk.yellow.bold('\nDry run: nothing was written to disk.'));
+    return;
+  }
+  console.log(chalk.green.bold(`\n✅ Generated resource "${result.name}"`));
+  result.created.forEach((file) => console.log(chalk.green(`  create ${file}`)));
+  result.updated.forEach((file) => console.log(chalk.cyan(`  update ${file}`)));
+}
+
+function createRegistryClient(options: CliOptions) {
+  return new RegistryClient({
+    registry: options.registry,
+    offline: options.offline,
+    pinned: options.pinned,
+  });
+}
+
+async function addFeature(options: CliOptions) {
+  const root = path.resolve(options.dir ?? process.cwd());
+  const fileSystem = options.dryRun ? new MemoryFileSystem(root) : new DiskFileSystem(root);
+  const installer = new FeatureInstaller(fileSystem, createRegistryClient(options));
+  const result = await installer.addFeature(options.feature as FEATURES, {
+    force: options.force,
+  });
+  if (fileSystem instanceof MemoryFileSystem) {
+    console.log(formatDryRun(path.basename(root), fileSystem.generatedFiles()));
+    console.log(chalk.yellow.bold('\nDry run: nothing was written to disk.'));
+    return;
+  }
+  console.log(chalk.green.bold(`\n✅ Added ${result.feature}`));
+  result.files.forEach((file) => console.log(chalk.green(`  write ${file}`)));
+  result.packages.forEach((pkg) => console.log(chalk.green(`  add   ${pkg}`)));
+  result.scripts.forEach((name) => console.log(chalk.green(`  script ${name}`)));
+  result.env.forEach((name) => console.log(chalk.green(`  env   ${name} (.env.example)`)));
+  result.updated.forEach((file) => console.log(chalk.green(`  update ${file}`)));
+  result.keptScripts.forEach((name) =>
+    console.log(chalk.yellow(`  kept existing "${name}" script, use --force to replace it`)),
+  );
+  if (options.skipInstall || !result.packages.length) return;
+  const pm = options.packageManager ?? detectProjectPackageManager(root);
+  const spinner = ora(`Installing dependencies with ${pm}...`).start();
+  try {
+    await execAsync(InstallCommands[pm], { cwd: root });
+    spinner.succeed('Dependencies installed');
+  } catch (err) {
+    spinner.fail(`Install failed, run "${InstallCommands[pm]}" manually`);
+    throw err;
+  }
+}
+
+async function createProject(options: CliOptions) {
+  const builder = new ProjectBuilder();
+  // flags win over the preset
+  if (options.preset) builder.usePreset(await loadPreset(options.preset));
+  builder
+    .setAnswers(toPromptAnswers(options))
+    .setInteractive(!options.yes)
+    .setDryRun(options.dryRun)
+    .setRegistryClient(createRegistryClient(options));
+  if (options.projectName) builder.setProjectName(options.projectName);
+  if (options.packageManager) builder.setPackageManager(options.packageManager);
+  if (options.dir) builder.setProjectBasePath(options.dir);
+  if (options.inPlace) builder.setInPlace();
+  if (options.skipInstall) builder.setInstall(false);
+  if (options.skipGit) builder.setGitInit(false);
+  if (options.recover) {
+    if ((await builder.recover()) === 'clean') return;
+    await builder.setupProject().then((b) => b.finalize());
+    return;
+  }
+  await builder.init();
+  if (options.savePreset) {
+    savePreset(options.savePreset, builder.toPreset());
+    console.log(chalk.green(`Saved the answers to ${options.savePreset}`));
+  }
+  await builder.setupProject().then((b) => b.finalize());
+}
 
 async function main() {
-  const builder = new ProjectBuilder({ extras: { dependencies: ['nodemon'] } });
-  await builder
-    .init()
-    .then((b) => b.setupProject())
-    .then((b) => b.finalize());
+  const options = parseCliArgs(process.argv.slice(2));
+  if (options.help) {
+    console.log(UsageText);
+    return;
+  }
+  if (options.version) {
+    console.log(readVersion());
+    return;
+  }
+  if (options.command === 'generate') {
+    generateResource(options);
+    return;
+  }
+  if (options.command === 'add') {
+    await addFeature(options);
+    return;
+  }
+  await createProject(options);
 }
 
 main().catch((err) => {
+  if (err instanceof UsageError) {
+    console.error(chalk.red(err.message));
+    console.error(`Run "create-express-app --help" for usage.`);
+    process.exit(2);
+  }
   console.error(chalk.red(err));
   process.exit(1);
 });
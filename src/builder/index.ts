@@ -1,44 +1,155 @@
 import chalk from 'chalk';
 import {
+  ExtrasConfig,
+  BuilderAnswers,
+  BuilderOptions,
+  ExtraQuestions,
   IPromptOrConfig,
   InitialDependencies,
   InitialDevDependencies,
   PromptAnswers,
   prompts as defaultPrompts,
+  resolveDatabase,
+  resolveTestRunner,
 } from '../prompts.js';
 import {
-  detectPackageManager,
+  commandExists,
+  DATABASE,
+  DatabaseFeature,
   execAsync,
   FEATURES,
-  getLatestVersion,
   InitCommands,
   InstallCommands,
+  isInsideGitRepo,
   LANGUAGE,
+  LockFiles,
   PACKAGEMANAGER,
   returnDirs,
+  TESTRUNNER,
+  TestRunnerFeature,
 } from '../utils.js';
 import inquirer from 'inquirer';
 import path from 'path';
 import fs from 'fs';
 import { WriteFiles } from '../write.js';
+import { DiskFileSystem, FileSystem, GeneratedFile, MemoryFileSystem } from '../filesystem.js';
+import { formatDiff, formatDryRun } from '../preview.js';
+import { Preset, presetAnswers, PresetProject } from '../preset.js';
+import { RegistryClient } from '../registry.js';
+import {
+  BuiltinPlugins,
+  FeaturePlugin,
+  FeatureSetup,
+  mergeAppInjections,
+  PlaceholderScripts,
+  resolvePlugin,
+} from '../features.js';
+import { Journal, JournaledFileSystem, JournalFile } from '../journal.js';
+import { validateBuilderConfig } from '../config.js';
+import {
+  Conflict,
+  ConflictAction,
+  FileMerge,
+  InPlaceFileSystem,
+  mergeGitignore,
+} from '../in-place.js';
 import ora from 'ora';
 
+/**
+ * The named steps of a build, in the order they run.
+ */
+export const BuildSteps = [
+  'initPackageJson',
+  'dependencies',
+  'typescript',
+  'eslint',
+  'sourceFiles',
+  'packageJson',
+  'install',
+  'build',
+  'git',
+  'finalize',
+] as const;
+
+export type BuildStep = (typeof BuildSteps)[number];
+
+/**
+ * Code hooked into a build step. It receives the builder running the step.
+ */
+export type StepHook<B> = (builder: B) => Promise<void> | void;
+
+/**
+ * A step added with `addStep()`. It receives the collected answers.
+ */
+export type CustomStep<A> = (answers: A) => Promise<void> | void;
+
+interface StepHooks<B> {
+  before: StepHook<B>[];
+  after: StepHook<B>[];
+  replacement?: StepHook<B>;
+  skipped?: boolean;
+}
+
+/**
+ * How `recover()` deals with an interrupted scaffold.
+ */
+export type RecoverAction = 'resume' | 'clean';
+
+/**
+ * Files merged with the existing ones when scaffolding in place. The
+ * `packageJson` step merges package.json itself.
+ */
+const InPlaceMerges: Record<string, FileMerge> = {
+  '.gitignore': mergeGitignore,
+  'package.json': (_current, generated) => generated,
+};
+
+/**
+ * Removes the build output and coverage, without a package for it.
+ */
+const CleanScript =
+  "node -e \"for (const dir of ['dist', 'coverage']) require('fs').rmSync(dir, { recursive: true, force: true })\"";
+
+/**
+ * The `@types/express` range for the express range in use: the resolved one
+ * when their majors match, e.g. `^4` for an existing express 4 otherwise.
+ */
+function expressTypesRange(express: string | undefined, types: string) {
+  const major = (range?: string) => range?.match(/\d+/)?.[0];
+  const expressMajor = major(express);
+  return !expressMajor || major(types) === expressMajor ? types : `^${expressMajor}`;
+}
+
+/**
+ * Scripts that create and fill the database of each choice, printed as next steps.
+ */
+const DatabaseSetupScripts: Record<DATABASE, string[]> = {
+  [DATABASE.NONE]: [],
+  [DATABASE.PRISMA]: ['db:migrate', 'db:seed'],
+  [DATABASE.DRIZZLE]: ['db:generate', 'db:migrate', 'db:seed'],
+  // the in-memory server starts empty, there is nothing to set up
+  [DATABASE.MONGOOSE]: [],
+};
+
 /**
  * @class SafeBuilder
  * @abstract
  * @description
  * Base builder class that provides safe execution of async/sync steps,
  * automatic rollback on error or interruption (SIGINT/SIGTERM),
- * and tracking of rollback steps.
+ * and tracking of rollback steps. Changes to the project directory are
+ * recorded in a journal on disk, so even a hard kill can be recovered from.
  */
 export abstract class SafeBuilder {
   protected projectPath!: string;
+  protected journal?: Journal;
   private steps: (() => Promise<void>)[] = [];
   private rolledBack = false;
   private setupSignals = false;
 
   /**
    * Track a rollback step for cleanup in case of error or interruption.
+   * Changes made through the builder's file system are journaled and need none.
    * @param step - Function to execute during rollback
    */
   protected trackStep(step: () => void | Promise<void>) {
@@ -46,12 +157,14 @@ export abstract class SafeBuilder {
   }
 
   /**
-   * Perform rollback by executing all tracked steps in reverse order.
+   * Perform rollback: run the tracked steps in reverse order, then undo the
+   * journaled changes, newest first.
    */
   async rollback() {
     if (this.rolledBack) return;
+    this.rolledBack = true;
     if (this.projectPath && process.cwd().startsWith(this.projectPath)) {
-      process.chdir(process.cwd());
+      process.chdir(path.dirname(this.projectPath));
     }
     console.log(chalk.yellow('\n⚠️ Rolling back...'));
     for (const step of this.steps.reverse()) {
@@ -61,7 +174,11 @@ export abstract class SafeBuilder {
         console.error(chalk.red('Rollback step failed: ', err));
       }
     }
-    this.rolledBack = true;
+    try {
+      this.journal?.rollback().forEach((file) => console.log(chalk.yellow(`Rolled back: ${file}`)));
+    } catch (err) {
+      console.error(chalk.red('Rollback failed, the journal is kept for --recover: ', err));
+    }
   }
 
   /**
@@ -79,23 +196,29 @@ export abstract class SafeBuilder {
   }
 
   /**
-   * Safely run a synchronous function with rollback on error.
+   * Safely run a synchronous function, awaiting the rollback on error.
    * @param fn - Synchronous function to execute
    */
-  safeSync(fn: () => void) {
+  async safeSync(fn: () => void) {
     this.setupSignalHandlers();
     try {
       fn();
     } catch (err) {
-      this.rollback();
+      await this.rollback();
       throw err;
     }
   }
 
   /**
-   * Remove the project directory safely.
+   * Remove the project directory safely: undo the journaled changes, which
+   * removes it when the scaffold created it and keeps the files that were
+   * already there otherwise.
    */
   protected removeProjectDir() {
+    if (this.journal) {
+      this.journal.rollback().forEach((file) => console.log(chalk.yellow(`Rolled back: ${file}`)));
+      return;
+    }
     if (this.projectPath && fs.existsSync(this.projectPath)) {
       fs.rmSync(this.projectPath, { recursive: true, force: true });
       console.log(chalk.yellow(`Removed directory: ${this.projectPath}`));
@@ -126,45 +249,93 @@ export abstract class SafeBuilder {
  * Helper class providing prompts handling, custom step execution, and dependency management.
  * All custom builders or extended builders should use this as a base.
  */
-export abstract class BuilderHelper extends SafeBuilder {
+export abstract class BuilderHelper<Q extends ExtraQuestions = []> extends SafeBuilder {
   protected prompts: typeof defaultPrompts;
-  protected customSteps: (() => Promise<void> | void)[] = [];
-  protected promptOrConfig!: PromptAnswers;
+  /** Asked after the prompts, see `BuilderOptions.questions` */
+  protected questions: Q;
+  protected customSteps: CustomStep<BuilderAnswers<Q>>[] = [];
+  protected promptOrConfig!: BuilderAnswers<Q>;
   protected dependencies: string[];
   protected devDependencies: string[];
-  protected config?: Partial<PromptAnswers>;
+  protected config?: Partial<BuilderAnswers<Q>>;
+  protected initialAnswers: Partial<BuilderAnswers<Q>> = {};
+  protected interactive = true;
+  protected dryRun = false;
+  protected fileSystem!: FileSystem;
+  protected registryClient = new RegistryClient();
   protected projectBasePath?: string;
+  protected plugins: FeaturePlugin<BuilderAnswers<Q>>[] = [...BuiltinPlugins];
+  protected pluginAnswers: Record<string, Record<string, unknown>> = {};
+  private stepHooks: Map<BuildStep, StepHooks<this>> = new Map();
 
-  constructor(promptOrConfig?: IPromptOrConfig) {
+  /**
+   * @throws InvalidBuilderConfigError when a config has unknown options or values
+   */
+  constructor(promptOrConfig?: IPromptOrConfig<Q>) {
     super();
+    this.questions = promptOrConfig?.questions ?? ([] as unknown as Q);
+    if (promptOrConfig !== undefined && !this.isPrompts(promptOrConfig)) {
+      // feature ids are checked once plugins can no longer be registered, in collectPrompts()
+      validateBuilderConfig(promptOrConfig, undefined, this.questionNames);
+    }
+    const extras: ExtrasConfig = promptOrConfig?.extras ?? {};
     if (this.isPrompts(promptOrConfig)) {
       this.prompts = promptOrConfig;
     } else if (this.isConfig(promptOrConfig)) {
-      this.config = promptOrConfig;
+      const { extras, questions, ...config } = promptOrConfig;
+      this.config = config as Partial<BuilderAnswers<Q>>;
       this.prompts = defaultPrompts;
     } else {
       this.prompts = defaultPrompts;
     }
-    this.dependencies = [...InitialDependencies];
-    this.devDependencies = [...InitialDevDependencies];
-    if (promptOrConfig && !Array.isArray(promptOrConfig)) {
-      this.promptOrConfig = {
-        ...this.extractPromptDefaults(this.prompts),
-        ...promptOrConfig,
-      } as PromptAnswers;
+    this.dependencies = [...InitialDependencies, ...(extras.dependencies ?? [])];
+    this.devDependencies = [...InitialDevDependencies, ...(extras.devDependencies ?? [])];
+    if (this.config) {
+      this.promptOrConfig = resolveDatabase(
+        resolveTestRunner({
+          ...this.extractPromptDefaults(this.prompts),
+          ...this.config,
+        } as BuilderAnswers<Q>),
+      );
     }
   }
 
-  private isPrompts(
-    value: typeof defaultPrompts | Partial<PromptAnswers> | undefined,
-  ): value is typeof defaultPrompts {
+  private isPrompts(value: IPromptOrConfig<Q> | undefined): value is typeof defaultPrompts {
     return Array.isArray(value);
   }
 
+  /**
+   * A config only counts as one when it carries answers; `{ extras }` or
+   * `{ questions }` alone still goes through the prompts.
+   */
   private isConfig(
-    value: typeof defaultPrompts | Partial<PromptAnswers> | undefined,
-  ): value is Partial<PromptAnswers> {
-    return !!value && typeof value === 'object' && !Array.isArray(value);
+    value: IPromptOrConfig<Q> | undefined,
+  ): value is Partial<BuilderAnswers<Q>> & BuilderOptions<Q> {
+    if (!value || typeof value !== 'object' || Array.isArray(value)) return false;
+    return Object.keys(value).some((key) => key !== 'extras' && key !== 'questions');
+  }
+
+  private get questionNames() {
+    return this.questions.map((question) => question.name);
+  }
+
+  /**
+   * Defaults of the extra questions not answered yet, skipping the ones whose
+   * `when` does not hold, like inquirer does.
+   */
+  private async extraQuestionDefaults(answers: Record<string, unknown>) {
+    const collected = { ...answers };
+    for (const question of this.questions) {
+      if (question.name in collected) continue;
+      const { when = true, default: def } = question as {
+        when?: unknown;
+        default?: unknown;
+      };
+      if (!(typeof when === 'function' ? await when(collected) : when)) continue;
+      const value = typeof def === 'function' ? await def(collected) : def;
+      if (value !== undefined) collected[question.name] = value;
+    }
+    return collected;
   }
 
   /**
@@ -192,7 +363,22 @@ export abstract class BuilderHelper extends SafeBuilder {
           break;
         case 'features':
           if (def !== undefined && Array.isArray(def)) {
-            defaults.features = def as FEATURES[];
+            defaults.features = def as PromptAnswers['features'];
+          }
+          break;
+        case 'testRunner':
+          if (def !== undefined && Object.values(TESTRUNNER).includes(def as TESTRUNNER)) {
+            defaults.testRunner = def as TESTRUNNER;
+          }
+          break;
+        case 'database':
+          if (def !== undefined && Object.values(DATABASE).includes(def as DATABASE)) {
+            defaults.database = def as DATABASE;
+          }
+          break;
+        case 'packageManager':
+          if (def !== undefined && Object.values(PACKAGEMANAGER).includes(def as PACKAGEMANAGER)) {
+            defaults.packageManager = def as PACKAGEMANAGER;
           }
           break;
       }
@@ -211,52 +397,260 @@ export abstract class BuilderHelper extends SafeBuilder {
   /**
    * Optionally set config after construction. Config always takes precedence
    * over prompts when present.
+   * @throws InvalidBuilderConfigError when the config has unknown options or values
    */
-  setConfig(config: Partial<PromptAnswers>) {
+  setConfig(config: Partial<BuilderAnswers<Q>>) {
+    validateBuilderConfig(config, undefined, this.questionNames);
     this.config = config;
     return this;
   }
 
+  /**
+   * Pre-answer some of the prompts. Only the remaining questions are asked.
+   */
+  setAnswers(answers: Partial<BuilderAnswers<Q>>) {
+    this.initialAnswers = { ...this.initialAnswers, ...answers };
+    return this;
+  }
+
+  /**
+   * Enable or disable interactive prompts. When disabled, unanswered
+   * questions fall back to their defaults instead of prompting.
+   */
+  setInteractive(interactive: boolean) {
+    this.interactive = interactive;
+    return this;
+  }
+
+  /**
+   * Run without touching disk: files are kept in memory and commands are
+   * skipped. Use `getGeneratedFiles()` to read the result.
+   */
+  setDryRun(dryRun: boolean) {
+    this.dryRun = dryRun;
+    return this;
+  }
+
+  /**
+   * Use a custom registry client to resolve dependency versions, e.g. one
+   * pointing at a private registry, running offline or with pinned versions.
+   */
+  setRegistryClient(client: RegistryClient) {
+    this.registryClient = client;
+    return this;
+  }
+
+  /**
+   * Register a feature plugin. It is offered in the features prompt and can be
+   * selected through `features` in a config; a plugin with the id of a
+   * built-in feature replaces it.
+   */
+  use(plugin: FeaturePlugin<BuilderAnswers<Q>>) {
+    this.plugins = [...this.plugins.filter((p) => p.id !== plugin.id), plugin];
+    return this;
+  }
+
+  /**
+   * The plugins of the selected features, in selection order.
+   */
+  protected selectedPlugins(): FeaturePlugin<BuilderAnswers<Q>>[] {
+    return this.promptOrConfig.features.map((feature) => {
+      const plugin = this.plugins.find((p) => p.id === feature);
+      if (!plugin) {
+        throw new Error(`Unknown feature "${feature}", register its plugin with use().`);
+      }
+      return plugin;
+    });
+  }
+
+  /**
+   * The prompts, with the registered plugins as the feature choices.
+   */
+  private promptsWithPlugins() {
+    const choices = this.plugins
+      .filter((plugin) => !plugin.hidden)
+      .map((plugin) => ({ name: plugin.label, value: plugin.id }));
+    return this.prompts.map((question) =>
+      question.name === 'features' ? { ...question, choices } : question,
+    ) as unknown as typeof defaultPrompts;
+  }
+
+  /**
+   * Ask the questions of the selected plugins, or take their defaults when
+   * not interactive.
+   */
+  private async collectPluginAnswers() {
+    for (const plugin of this.selectedPlugins()) {
+      if (!plugin.questions?.length || this.pluginAnswers[plugin.id]) continue;
+      if (this.interactive) {
+        this.pluginAnswers[plugin.id] = await inquirer.prompt(plugin.questions);
+        continue;
+      }
+      const defaults: Record<string, unknown> = {};
+      for (const question of plugin.questions) {
+        if (question.name && typeof question.default !== 'function') {
+          defaults[question.name] = question.default;
+        }
+      }
+      this.pluginAnswers[plugin.id] = defaults;
+    }
+  }
+
+  /**
+   * Where a dry run keeps its files, under any wrapper of the file system.
+   */
+  protected get dryRunFileSystem(): MemoryFileSystem | undefined {
+    let fileSystem = this.fileSystem;
+    if (fileSystem instanceof InPlaceFileSystem) fileSystem = fileSystem.fileSystem;
+    return fileSystem instanceof MemoryFileSystem ? fileSystem : undefined;
+  }
+
+  /**
+   * Files written so far by a dry run. Empty when writing to disk.
+   */
+  getGeneratedFiles(): GeneratedFile[] {
+    return this.dryRunFileSystem?.generatedFiles() ?? [];
+  }
+
   /**
    * Collect user prompts safely, or use provided config.
-   * Priority: config (if present) -> prompts (interactive)
+   * Priority: config (if present) -> pre-filled answers -> prompts (interactive) -> prompt defaults
    * @returns this - for method chaining
    */
   async collectPrompts() {
     await this.safe(async () => {
       if (this.config) {
+        validateBuilderConfig(
+          this.config,
+          this.plugins.map((plugin) => plugin.id),
+          this.questionNames,
+        );
         const defaults = this.extractPromptDefaults(this.prompts);
-        this.promptOrConfig = { ...defaults, ...this.config } as PromptAnswers;
+        this.promptOrConfig = (await this.extraQuestionDefaults({
+          ...defaults,
+          ...this.initialAnswers,
+          ...this.config,
+        })) as BuilderAnswers<Q>;
+      } else if (!this.promptOrConfig && this.interactive) {
+        this.promptOrConfig = await inquirer.prompt(
+          [...this.promptsWithPlugins(), ...this.questions] as unknown as typeof defaultPrompts,
+          this.initialAnswers,
+        );
       } else if (!this.promptOrConfig) {
-        this.promptOrConfig = await inquirer.prompt(this.prompts);
+        const defaults = this.extractPromptDefaults(this.prompts);
+        this.promptOrConfig = (await this.extraQuestionDefaults({
+          ...defaults,
+          ...this.initialAnswers,
+        })) as BuilderAnswers<Q>;
       }
+      this.promptOrConfig = resolveDatabase(resolveTestRunner(this.promptOrConfig));
+      await this.collectPluginAnswers();
     });
     return this;
   }
 
   /**
-   * Add a custom step to run after prompts or default builder steps.
-   * @param step - Function that returns void or Promise<void>
+   * The collected answers, including the extra questions. Available once
+   * `collectPrompts()` ran, e.g. in custom steps and step hooks.
+   */
+  get answers(): Readonly<BuilderAnswers<Q>> {
+    if (!this.promptOrConfig) {
+      throw new Error('No answers yet, call init() or collectPrompts() first.');
+    }
+    return this.promptOrConfig;
+  }
+
+  /**
+   * Add a custom step, run once the default steps have written the project,
+   * right before `install`.
+   * @param step - Called with the collected answers; returns void or Promise<void>
    * @returns this - for method chaining
    */
-  addStep(step: () => Promise<void> | void) {
+  addStep(step: CustomStep<BuilderAnswers<Q>>) {
     this.customSteps.push(step);
     return this;
   }
 
   /**
-   * Run all registered custom steps safely.
+   * Run the custom steps not run yet, safely. `setupProject()` runs them for you.
    * @returns this - for method chaining
    */
   async runCustomSteps() {
-    for (const step of this.customSteps) {
+    for (const step of this.customSteps.splice(0)) {
       await this.safe(async () => {
-        await step();
+        await step(this.promptOrConfig);
       });
     }
     return this;
   }
 
+  /**
+   * Run `hook` right before a build step. It still runs when the step is skipped.
+   */
+  before(step: BuildStep, hook: StepHook<this>) {
+    this.hooksOf(step).before.push(hook);
+    return this;
+  }
+
+  /**
+   * Run `hook` right after a build step. It still runs when the step is skipped.
+   */
+  after(step: BuildStep, hook: StepHook<this>) {
+    this.hooksOf(step).after.push(hook);
+    return this;
+  }
+
+  /**
+   * Run `hook` instead of a build step. Its `before` and `after` hooks are kept.
+   */
+  replace(step: BuildStep, hook: StepHook<this>) {
+    const hooks = this.hooksOf(step);
+    hooks.replacement = hook;
+    hooks.skipped = false;
+    return this;
+  }
+
+  /**
+   * Leave out a build step. Its `before` and `after` hooks still run.
+   */
+  skip(step: BuildStep) {
+    this.hooksOf(step).skipped = true;
+    return this;
+  }
+
+  private hooksOf(step: BuildStep) {
+    if (!BuildSteps.includes(step)) {
+      throw new Error(`Unknown build step "${step}", expected one of: ${BuildSteps.join(', ')}.`);
+    }
+    let hooks = this.stepHooks.get(step);
+    if (!hooks) {
+      hooks = { before: [], after: [] };
+      this.stepHooks.set(step, hooks);
+    }
+    return hooks;
+  }
+
+  /**
+   * Run a build step safely, with the hooks registered for it.
+   * @param step - Name of the step
+   * @param run - The default implementation of the step
+   */
+  protected async runStep(step: BuildStep, run: () => Promise<unknown> | unknown) {
+    const hooks = this.hooksOf(step);
+    for (const hook of hooks.before) {
+      await this.safe(async () => hook(this));
+    }
+    if (!hooks.skipped) {
+      await this.safe(async () => {
+        await (hooks.replacement ? hooks.replacement(this) : run());
+      });
+    }
+    for (const hook of hooks.after) {
+      await this.safe(async () => hook(this));
+    }
+    this.journal?.completeStep(step);
+  }
+
   /**
    * Run a shell command safely.
    * @param name - Name/description of the command
@@ -264,30 +658,64 @@ export abstract class BuilderHelper extends SafeBuilder {
    * @returns this - for chaining
    */
   async runCommand(name: string, cmd: string) {
+    if (this.dryRun) {
+      console.log(chalk.dim(`Dry run: skipped ${name} (${cmd})`));
+      return this;
+    }
     return this.safe(async () => {
-      const spinner = ora(`Running command: ${name}...`).start();
-      try {
-        const { stderr } = await execAsync(cmd, { cwd: this.projectPath });
-        if (stderr) {
-          console.error(stderr.trim());
-        }
-        spinner.succeed(`Command ${name} succeeded`);
-        return this;
-      } catch (err: unknown) {
-        spinner.fail(`Command ${name} failed`);
-        console.error(`Command failed: ${cmd}`);
-        if (err instanceof Error) {
-          // eslint-disable-next-line @typescript-eslint/no-explicit-any
-          const e: any = err;
-          if (e.stdout) console.log(e.stdout.trim());
-          if (e.stderr) console.error(e.stderr.trim());
-          throw new Error(`Command "${cmd}" failed with code ${e.code || 'unknown'}: ${e.message}`);
-        }
-        throw new Error(`Command "${cmd}" failed with unknown error`);
-      }
+      await this.execCommand(name, cmd);
+      return this;
     });
   }
 
+  /**
+   * Run a shell command inside the project directory, without rollback.
+   */
+  protected async execCommand(name: string, cmd: string) {
+    const spinner = ora(`Running command: ${name}...`).start();
+    try {
+      const { stderr } = await execAsync(cmd, { cwd: this.projectPath });
+      if (stderr) {
+        console.error(stderr.trim());
+      }
+      spinner.succeed(`Command ${name} succeeded`);
+    } catch (err: unknown) {
+      spinner.fail(`Command ${name} failed`);
+      console.error(`Command failed: ${cmd}`);
+      if (err instanceof Error) {
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        const e: any = err;
+        if (e.stdout) console.log(e.stdout.trim());
+        if (e.stderr) console.error(e.stderr.trim());
+        throw new Error(`Command "${cmd}" failed with code ${e.code || 'unknown'}: ${e.message}`);
+      }
+      throw new Error(`Command "${cmd}" failed with unknown error`);
+    }
+  }
+
+  /**
+   * Run a command whose failure keeps the generated files: only its `output`
+   * is undone, with a warning and the command to run by hand.
+   * @returns whether the command succeeded
+   */
+  protected async runOptionalCommand(name: string, cmd: string, output: string[]) {
+    if (this.dryRun) {
+      console.log(chalk.dim(`Dry run: skipped ${name} (${cmd})`));
+      return false;
+    }
+    try {
+      await this.execCommand(name, cmd);
+      return true;
+    } catch {
+      this.journal
+        ?.undo(output)
+        .forEach((file) => console.log(chalk.yellow(`Rolled back: ${file}`)));
+      console.warn(chalk.yellow(`${name} failed, the generated files are kept. Run it yourself:`));
+      console.warn(chalk.yellow(`  ${cmd}`));
+      return false;
+    }
+  }
+
   /**
    * Safely create a file, ensuring its directory exists.
    * @param filePath - Path to file
@@ -295,21 +723,8 @@ export abstract class BuilderHelper extends SafeBuilder {
    * @returns this - for chaining
    */
   async createFile(filePath: string, content: string) {
-    const dir = path.dirname(filePath);
-    this.safe(async () => {
-      this.trackStep(async () => {
-        try {
-          if (fs.existsSync(filePath)) {
-            await fs.promises.unlink(filePath);
-            console.log(chalk.yellow(`Rolled back file: ${filePath}`));
-          }
-        } catch (error) {
-          console.error(chalk.red(`Failed to remove file during rollback: ${filePath}`, error));
-        }
-        if (!fs.existsSync(dir)) fs.promises.mkdir(dir, { recursive: true });
-      });
-      await fs.promises.writeFile(filePath, content);
-    });
+    // the journal restores or removes it on rollback
+    await this.safe(async () => this.fileSystem.writeFile(filePath, content));
     return this;
   }
 
@@ -339,43 +754,231 @@ export abstract class BuilderHelper extends SafeBuilder {
  * @extends BuilderHelper
  * @description
  * Default vanilla builder for Express projects.
- * Supports method chaining for standard project steps:
- * `init()`, `collectPrompts()`, `handleDependencies()`,
- * `setupTypeScript()`, `setupEslint()`, `createSourceFiles()`,
- * `updatePackageJson()`, `finalize()`.
+ * `init()` collects the answers, then `setupProject()` and `finalize()` run the
+ * build steps in order: `initPackageJson`, `dependencies`, `typescript`,
+ * `eslint`, `sourceFiles`, `packageJson`, `install`, `build`, `git` and `finalize`.
  *
- * Can be extended for custom workflows using BuilderHelper methods:
- * `addStep()`, `runCustomSteps()`, `createFile()`, etc.
+ * Hook into them with `before()`, `after()`, `replace()` and `skip()`, or
+ * extend the builder and use BuilderHelper methods: `addStep()`,
+ * `createFile()`, `runCommand()`, etc.
  */
-export class ProjectBuilder extends BuilderHelper {
+export class ProjectBuilder<Q extends ExtraQuestions = []> extends BuilderHelper<Q> {
   public scriptName: string;
   public projectName!: string;
-  private packageManager: PACKAGEMANAGER;
   private writeFiles!: WriteFiles;
+  private featureSetups?: Map<string, FeatureSetup>;
+  private inPlace = false;
+  private packageFields: Omit<PresetProject, 'name'> = {};
+  private presetExtras?: ExtrasConfig;
+  /** Whether to install the dependencies, asked for when not set */
+  private installDependencies?: boolean;
+  private gitInit = true;
+  /** What the `install` and `build` steps did, for the next steps */
+  private installed = false;
+  private built = false;
 
-  constructor(promptOrConfig?: IPromptOrConfig) {
+  constructor(promptOrConfig?: IPromptOrConfig<Q>) {
     super(promptOrConfig);
-    this.packageManager = detectPackageManager();
     this.scriptName = '🚀 Create Express App';
   }
 
+  /**
+   * Scaffold into the project folder even when it already holds files. Those
+   * are kept: `.gitignore` and `package.json` are merged, and every other file
+   * that would be replaced is asked about. A project name of `.` implies it.
+   */
+  setInPlace(inPlace = true) {
+    this.inPlace = inPlace;
+    return this;
+  }
+
+  /**
+   * Apply a preset: its answers are pre-filled, and its package manager,
+   * extra packages and project metadata are used. Setters called afterwards
+   * override its values.
+   */
+  usePreset(preset: Preset) {
+    this.setAnswers(presetAnswers(preset) as Partial<BuilderAnswers<Q>>);
+    if (preset.extras) {
+      this.addDependencies(...(preset.extras.dependencies ?? []));
+      this.addDevDependencies(...(preset.extras.devDependencies ?? []));
+      this.presetExtras = preset.extras;
+    }
+    const { name, ...fields } = preset.project ?? {};
+    if (name) this.projectName = name;
+    this.packageFields = { ...this.packageFields, ...fields };
+    return this;
+  }
+
+  /**
+   * The answers of this build as a preset, e.g. to save the ones given
+   * interactively. Call it after `init()`.
+   */
+  toPreset(): Preset {
+    const { language, features, testRunner, database, packageManager } = this.promptOrConfig;
+    // the test runner and database features are saved as their own answers
+    const choices: string[] = [
+      ...Object.values(TestRunnerFeature),
+      ...Object.values(DatabaseFeature),
+    ];
+    return {
+      language,
+      features: features.filter((f) => !choices.includes(f)) as FEATURES[],
+      testRunner,
+      database,
+      packageManager,
+      ...(this.presetExtras && { extras: this.presetExtras }),
+      ...(Object.keys(this.packageFields).length && { project: this.packageFields }),
+    };
+  }
+
+  /**
+   * Name of the package, the project folder's name.
+   */
+  private get packageName() {
+    return path.basename(this.projectPath);
+  }
+
+  /**
+   * Set the name of the project folder. When not set, it is prompted for.
+   */
+  setProjectName(name: string) {
+    this.projectName = name;
+    return this;
+  }
+
+  /**
+   * Answer the package manager question, which defaults to the package
+   * manager running this script.
+   */
+  setPackageManager(packageManager: PACKAGEMANAGER) {
+    return this.setAnswers({ packageManager } as Partial<BuilderAnswers<Q>>);
+  }
+
+  private get packageManager() {
+    return this.promptOrConfig.packageManager;
+  }
+
+  /**
+   * Install the dependencies as part of the build, then build a TypeScript
+   * project. When not set, it is asked for, and done when not interactive.
+   */
+  setInstall(install = true) {
+    this.installDependencies = install;
+    return this;
+  }
+
+  /**
+   * Init a git repository with an initial commit, unless the project is
+   * already inside one. On by default.
+   */
+  setGitInit(gitInit = true) {
+    this.gitInit = gitInit;
+    return this;
+  }
+
   /**
    * Initialize project: set name, create folder, init package.json
    */
   async init() {
     console.log(chalk.green.bold(`\n${this.scriptName}\n`));
-    this.projectName = this.projectName || process.argv[2] || (await this.askProjectName());
+    this.projectName = this.projectName || (await this.askProjectName());
     const basePath = this.projectBasePath || process.cwd();
     this.projectPath = path.join(basePath, this.projectName);
-    await this.safe(async () => {
-      await this.handleExistingDir();
-    });
-    await this.collectPrompts();
-    this.writeFiles = new WriteFiles(this.promptOrConfig);
+    if (this.projectName === '.') this.inPlace = true;
+    if (this.dryRun) {
+      this.fileSystem = this.inPlaceIfNeeded(new MemoryFileSystem(this.projectPath));
+    } else {
+      const created = await this.safe(async () => this.handleExistingDir());
+      this.journal = Journal.create(this.projectPath, this.projectName, created);
+      this.fileSystem = this.inPlaceIfNeeded(
+        new JournaledFileSystem(new DiskFileSystem(this.projectPath), this.journal),
+      );
+    }
+    await this.prepare();
+    if (this.installDependencies === undefined && this.interactive && !this.dryRun) {
+      this.installDependencies = await this.askInstall();
+    }
     return this;
   }
 
+  private async askInstall(): Promise<boolean> {
+    const { install } = await inquirer.prompt([
+      {
+        type: 'confirm',
+        name: 'install',
+        message: `Install the dependencies with ${this.packageManager}?`,
+        default: true,
+      },
+    ]);
+    return install;
+  }
+
+  private inPlaceIfNeeded(fileSystem: FileSystem): FileSystem {
+    if (!this.inPlace) return fileSystem;
+    const journal = this.journal;
+    return new InPlaceFileSystem(fileSystem, InPlaceMerges, (file) => !!journal?.created(file));
+  }
+
+  /**
+   * Pick up a scaffold that was interrupted, from the journal left in its
+   * directory. `clean` undoes every change it made; `resume` loads its answers
+   * so `setupProject()` can run it again. When no action is given it is asked
+   * for, or resumed when not interactive.
+   * @returns the action taken
+   */
+  async recover(action?: RecoverAction): Promise<RecoverAction> {
+    console.log(chalk.green.bold(`\n${this.scriptName}\n`));
+    this.projectName = this.projectName || (await this.askProjectName());
+    const basePath = this.projectBasePath || process.cwd();
+    this.projectPath = path.join(basePath, this.projectName);
+    const journal = Journal.read(this.projectPath);
+    if (!journal) {
+      throw new Error(`No interrupted scaffold to recover in "${this.projectName}".`);
+    }
+    this.journal = journal;
+    action = action ?? (this.interactive ? await this.askRecoverAction() : 'resume');
+    if (action === 'clean') {
+      journal.rollback().forEach((file) => console.log(chalk.yellow(`Rolled back: ${file}`)));
+      console.log(chalk.green(`Cleaned up the interrupted scaffold of "${this.projectName}".`));
+      return action;
+    }
+    this.inPlace = !journal.createdRoot;
+    this.fileSystem = this.inPlaceIfNeeded(
+      new JournaledFileSystem(new DiskFileSystem(this.projectPath), journal),
+    );
+    if (journal.answers) this.setConfig(journal.answers as Partial<BuilderAnswers<Q>>);
+    this.pluginAnswers = { ...journal.pluginAnswers, ...this.pluginAnswers };
+    await this.prepare();
+    return action;
+  }
+
+  private async askRecoverAction(): Promise<RecoverAction> {
+    const { action } = await inquirer.prompt([
+      {
+        type: 'list',
+        name: 'action',
+        message: `"${this.projectName}" was not scaffolded completely. What should be done?`,
+        choices: [
+          { name: 'Resume the scaffold', value: 'resume' },
+          { name: 'Clean up everything it wrote', value: 'clean' },
+        ],
+      },
+    ]);
+    return action;
+  }
+
+  /**
+   * Collect the answers, journal them and get the file writers ready
+   */
+  private async prepare() {
+    await this.collectPrompts();
+    this.journal?.setAnswers(this.promptOrConfig, this.pluginAnswers);
+    this.writeFiles = new WriteFiles(this.promptOrConfig, this.fileSystem);
+  }
+
   private async askProjectName(): Promise<string> {
+    if (!this.interactive) return 'my-express-app';
     const { inputName } = await inquirer.prompt([
       {
         type: 'input',
@@ -387,147 +990,182 @@ export class ProjectBuilder extends BuilderHelper {
     return inputName;
   }
 
-  private async handleExistingDir() {
-    const basePath = this.projectBasePath || process.cwd();
-    this.projectPath = path.join(basePath, this.projectName);
-    this.trackStep(async () => {
-      try {
-        if (fs.existsSync(this.projectPath)) {
-          process.chdir(basePath);
-          await fs.promises.rm(this.projectPath, { recursive: true, force: true });
-          console.log(chalk.yellow(`Rollback: removed directory ${this.projectPath}`));
-        }
-      } catch (err) {
-        console.error(chalk.red('Failed to remove project directory during rollback:', err));
-      }
-    });
+  /**
+   * Make sure the project folder exists and can be scaffolded into.
+   * @returns whether the folder was created, so rollback may remove it
+   */
+  private async handleExistingDir(): Promise<boolean> {
+    if (Journal.exists(this.projectPath)) {
+      throw new Error(
+        `Directory "${this.projectName}" holds an interrupted scaffold, ` +
+          'run again with --recover to resume or clean it up.',
+      );
+    }
     if (fs.existsSync(this.projectPath)) {
-      await this.safe(async () => {
-        const { overwrite } = await inquirer.prompt([
-          {
-            type: 'confirm',
-            name: 'overwrite',
-            message: `Directory "${this.projectName}" already exists. Remove and continue?`,
-            default: false,
-          },
-        ]);
-        if (!overwrite) {
-          console.log(chalk.red('Aborting, directory already exists.'));
-          throw new Error('User aborted');
-        }
-        process.chdir(basePath);
-        await fs.promises.rm(this.projectPath, { recursive: true, force: true });
-      });
+      // Checked before the journal is started, so aborting here never
+      // removes a directory we did not create.
+      if (this.inPlace || !fs.readdirSync(this.projectPath).length) return false;
+      if (!this.interactive) {
+        throw new Error(
+          `Directory "${this.projectName}" already exists and is not empty, ` +
+            'use --in-place to scaffold into it.',
+        );
+      }
+      const { existing } = await inquirer.prompt([
+        {
+          type: 'list',
+          name: 'existing',
+          message: `Directory "${this.projectName}" already exists and is not empty.`,
+          choices: [
+            { name: 'Scaffold into it, keeping its files', value: 'in-place' },
+            { name: 'Remove it and continue', value: 'remove' },
+            { name: 'Abort', value: 'abort' },
+          ],
+        },
+      ]);
+      if (existing === 'abort') {
+        console.log(chalk.red('Aborting, directory already exists.'));
+        throw new Error('User aborted');
+      }
+      if (existing === 'in-place') {
+        this.inPlace = true;
+        return false;
+      }
+      await fs.promises.rm(this.projectPath, { recursive: true, force: true });
     }
     await fs.promises.mkdir(this.projectPath, { recursive: true });
-    process.chdir(this.projectPath);
+    return true;
   }
 
   private async initPackageJson() {
-    this.trackStep(() => {
-      if (fs.existsSync('package.json')) fs.rmSync('package.json', { force: true });
-    });
+    // a resumed scaffold keeps the package.json it started with, an existing
+    // project its own one
+    const resumed = this.journal?.isCompleted('initPackageJson');
+    if ((resumed || this.inPlace) && this.fileSystem.exists('package.json')) {
+      return;
+    }
+    this.journal?.recordFile('package.json');
     await this.safe(async () => {
+      if (this.dryRun) {
+        // Mirrors the package.json that `npm init -y` would create.
+        const pkg = {
+          name: this.packageName,
+          version: '1.0.0',
+          main: 'index.js',
+          scripts: { test: 'echo "Error: no test specified" && exit 1' },
+          keywords: [],
+          author: '',
+          license: 'ISC',
+          description: '',
+        };
+        this.fileSystem.writeFile('package.json', JSON.stringify(pkg, null, 2));
+        return;
+      }
       await this.runCommand('Initializing package.json', InitCommands[this.packageManager]);
     });
   }
 
+  /**
+   * Run the build steps up to `git`, and the custom steps before `install`
+   */
   async setupProject() {
-    await this.safe(async () => this.initPackageJson());
-    this.handleDependencies();
-    this.setupTypeScript();
-    this.setupEslint();
-    this.createSourceFiles();
-    await this.updatePackageJson();
+    await this.runStep('initPackageJson', () => this.initPackageJson());
+    await this.runStep('dependencies', () => this.handleDependencies());
+    await this.runStep('typescript', () => this.setupTypeScript());
+    await this.runStep('eslint', () => this.setupEslint());
+    await this.runStep('sourceFiles', () => this.createSourceFiles());
+    await this.runStep('packageJson', () => this.updatePackageJson());
+    await this.runCustomSteps();
+    await this.resolveConflicts();
+    await this.runStep('install', () => this.install());
+    await this.runStep('build', () => this.build());
+    await this.runStep('git', () => this.initGit());
+    this.journal?.commit();
     return this;
   }
 
   /**
-   * Map selected features to dependencies/devDependencies
+   * The selected plugins resolved for this project, by feature id
    */
-  protected handleDependencies() {
-    this.promptOrConfig.features.map((feature: FEATURES) => {
-      switch (feature) {
-        case FEATURES.ESLINT:
-          this.addDevDependencies(
-            'eslint',
-            'prettier',
-            '@typescript-eslint/parser',
-            '@typescript-eslint/eslint-plugin',
-          );
-          break;
-        case FEATURES.JEST:
-          this.addDevDependencies('jest', '@types/jest', 'ts-jest');
-          break;
-        default:
-          this.addDependencies(feature);
-          break;
+  protected getFeatureSetups(): Map<string, FeatureSetup> {
+    if (!this.featureSetups) {
+      this.featureSetups = new Map(
+        this.selectedPlugins().map((plugin) => [
+          plugin.id,
+          resolvePlugin(plugin, {
+            language: this.promptOrConfig.language,
+            features: this.promptOrConfig.features,
+            answers: this.pluginAnswers[plugin.id] ?? {},
+            projectAnswers: this.promptOrConfig,
+            fileSystem: this.fileSystem,
+          }),
+        ]),
+      );
+    }
+    return this.featureSetups;
+  }
+
+  /**
+   * Write the files of the selected features, all but the excluded ones
+   */
+  protected async writeFeatureFiles(exclude: string[] = []) {
+    await this.safeSync(() => {
+      for (const [feature, setup] of this.getFeatureSetups()) {
+        if (exclude.includes(feature)) continue;
+        Object.entries(setup.files).forEach(([file, content]) =>
+          this.fileSystem.writeFile(file, content),
+        );
       }
     });
+  }
+
+  /**
+   * Map selected features to dependencies/devDependencies
+   */
+  protected handleDependencies() {
+    for (const setup of this.getFeatureSetups().values()) {
+      this.addDependencies(...setup.dependencies);
+      this.addDevDependencies(...setup.devDependencies);
+    }
     return this;
   }
 
-  protected setupTypeScript() {
+  protected async setupTypeScript() {
     if (this.promptOrConfig.language === LANGUAGE.TYPESCRIPT) {
-      this.devDependencies.push(
-        'typescript',
-        '@types/express',
-        '@types/cors',
-        '@types/body-parser',
-        'tsc-alias',
-      );
-      this.safeSync(() => {
-        this.trackStep(() => fs.rmSync('tsconfig.json', { force: true }));
-        this.writeFiles.writeTsConfig();
-      });
+      this.devDependencies.push('typescript', '@types/express', '@types/cors', 'tsc-alias', 'tsx');
+      await this.safeSync(() => this.writeFiles.writeTsConfig());
     }
     return this;
   }
 
-  protected setupEslint() {
-    if (this.promptOrConfig.features.includes(FEATURES.ESLINT)) {
-      this.safeSync(() => {
-        this.trackStep(() => {
-          ['.eslintrc.js', '.prettierrc', '.eslintignore'].forEach((file) => {
-            if (fs.existsSync(file)) fs.rmSync(file, { force: true });
-          });
-        });
-        this.writeFiles.writeEslintFiles();
-      });
-    }
+  protected async setupEslint() {
+    const others = [...this.getFeatureSetups().keys()].filter((f) => f !== FEATURES.ESLINT);
+    await this.writeFeatureFiles(others);
     return this;
   }
 
   /**
    * Create project source directories and files
    */
-  protected createSourceFiles() {
-    this.safeSync(() => {
-      const srcPath = path.join(this.projectPath, 'src');
-      this.trackStep(() => fs.rmSync(srcPath, { recursive: true, force: true }));
-      fs.mkdirSync('src');
+  protected async createSourceFiles() {
+    await this.safeSync(() => {
+      this.fileSystem.mkdir('src');
       const allDirs = returnDirs(this.promptOrConfig.language);
-      allDirs.forEach((dir) => fs.mkdirSync(`src/${dir}`));
+      allDirs.forEach((dir) => this.fileSystem.mkdir(`src/${dir}`));
     });
-    this.safeSync(() => {
-      const files = [
-        '.gitignore',
-        'src/app.js',
-        'src/index.js',
-        'src/routes.js',
-        'src/controllers.js',
-        'src/schema.js',
-      ];
-      this.trackStep(() => {
-        files.forEach((file) => fs.existsSync(file) && fs.rmSync(file, { force: true }));
-      });
+    await this.safeSync(() => {
+      const setups = [...this.getFeatureSetups().values()];
       this.writeFiles.writeGitignore();
-      this.writeFiles.writeAppFile();
+      this.writeFiles.writeAppFile(mergeAppInjections(setups.map((setup) => setup.app)));
       this.writeFiles.writeIndexFile();
+      this.writeFiles.writeNodemonConfig();
+      this.writeFiles.writeConfigFiles(setups.flatMap((setup) => setup.env));
+      this.writeFiles.writeErrorHandling();
+      this.writeFiles.writeHealthFiles();
       this.writeFiles.writeRoutesFile();
       this.writeFiles.writeControllersFile();
-      this.writeFiles.writeSchemaFile();
     });
+    await this.writeFeatureFiles([FEATURES.ESLINT]);
     return this;
   }
 
@@ -536,62 +1174,221 @@ export class ProjectBuilder extends BuilderHelper {
    */
   protected async updatePackageJson() {
     const spinner = ora('Setting things up...').start();
+    const keptScripts: string[] = [];
+    let keptType: string | undefined;
     try {
       await this.safe(async () => {
-        this.trackStep(() => {
-          if (fs.existsSync('package.json')) {
-            fs.rmSync('package.json', { force: true });
-            console.log(chalk.yellow('Rollback: removed package.json'));
-          }
-        });
-        const pkg = JSON.parse(fs.readFileSync('package.json', 'utf-8'));
-        if (this.promptOrConfig.language !== LANGUAGE.TYPESCRIPT) pkg.type = 'module';
+        const pkg = {
+          ...JSON.parse(this.fileSystem.readFile('package.json')),
+          ...this.packageFields,
+        };
+        // the type of an existing project is kept, the JavaScript sources are ES modules
+        if (this.promptOrConfig.language !== LANGUAGE.TYPESCRIPT) {
+          pkg.type ??= 'module';
+          if (pkg.type !== 'module') keptType = pkg.type;
+        }
         pkg.dependencies = pkg.dependencies || {};
         pkg.devDependencies = pkg.devDependencies || {};
+        const existingScripts: Record<string, string> = pkg.scripts || {};
+        const typescript = this.promptOrConfig.language === LANGUAGE.TYPESCRIPT;
         pkg.scripts = {
-          start:
-            this.promptOrConfig.language === LANGUAGE.TYPESCRIPT
-              ? 'node dist/index.js'
-              : 'node src/index.js',
-          lint: this.promptOrConfig.features.includes(FEATURES.ESLINT)
-            ? 'eslint . --ext .ts,.js'
-            : "echo 'no lint'",
-          test: this.promptOrConfig.features.includes(FEATURES.JEST) ? 'jest' : "echo 'no tests'",
+          start: typescript ? 'node dist/index.js' : 'node src/index.js',
+          // restarts on changes in src, see nodemon.json
+          dev: 'nodemon',
+          ...(typescript && { typecheck: 'tsc --noEmit' }),
+          clean: CleanScript,
+          lint: "echo 'no lint'",
+          test: "echo 'no tests'",
         };
-        if (this.promptOrConfig.language === LANGUAGE.TYPESCRIPT) {
+        for (const setup of this.getFeatureSetups().values()) {
+          Object.assign(pkg.scripts, setup.scripts);
+        }
+        if (typescript) {
           pkg.scripts = { build: 'tsc && tsc-alias', ...pkg.scripts };
         }
-        await Promise.all(
-          this.dependencies.map(async (dep) => {
-            pkg.dependencies[dep] = `^${await getLatestVersion(dep)}`;
-          }),
-        );
-        await Promise.all(
-          this.devDependencies.map(async (dep) => {
-            pkg.devDependencies[dep] = `^${await getLatestVersion(dep)}`;
-          }),
-        );
-        this.createFile('package.json', JSON.stringify(pkg, null, 2));
+        // scripts of an existing project win over the generated ones, placeholders aside
+        for (const [name, command] of Object.entries(existingScripts)) {
+          if (PlaceholderScripts.includes(command) || pkg.scripts[name] === command) continue;
+          if (name in pkg.scripts && !PlaceholderScripts.includes(pkg.scripts[name])) {
+            keptScripts.push(name);
+          }
+          pkg.scripts[name] = command;
+        }
+        // resolved in parallel, written in order so package.json does not depend on timing
+        const resolveAll = (deps: string[]) =>
+          Promise.all(deps.map((dep) => this.registryClient.getVersionRange(dep)));
+        const [ranges, devRanges] = await Promise.all([
+          resolveAll(this.dependencies),
+          resolveAll(this.devDependencies),
+        ]);
+        // versions already in package.json are kept
+        this.dependencies.forEach((dep, i) => (pkg.dependencies[dep] ??= ranges[i]));
+        const types = this.devDependencies.indexOf('@types/express');
+        if (types >= 0)
+          devRanges[types] = expressTypesRange(pkg.dependencies.express, devRanges[types]);
+        this.devDependencies.forEach((dep, i) => (pkg.devDependencies[dep] ??= devRanges[i]));
+        await this.createFile('package.json', JSON.stringify(pkg, null, 2) + '\n');
       });
       spinner.succeed('Success');
     } catch (error) {
       spinner.fail('Project setup failed!');
       throw error;
     }
+    keptScripts.forEach((name) => console.log(chalk.yellow(`Kept the existing "${name}" script`)));
+    if (keptType) {
+      console.log(
+        chalk.yellow(`Kept "type": "${keptType}", the generated sources need "type": "module"`),
+      );
+    }
+    return this;
+  }
+
+  /**
+   * Settle the generated files that would replace files already in the
+   * folder when scaffolding in place: asked about one by one, or written as
+   * `<file>.new` when not interactive. A dry run shows them as overwritten.
+   */
+  protected async resolveConflicts() {
+    const fileSystem = this.fileSystem;
+    if (!(fileSystem instanceof InPlaceFileSystem)) return;
+    await this.safe(async () => {
+      for (const conflict of fileSystem.conflicts()) {
+        let action: ConflictAction = 'new';
+        if (this.dryRun) action = 'overwrite';
+        else if (this.interactive) action = await this.askConflictAction(conflict);
+        fileSystem.resolve(conflict, action);
+        if (this.dryRun) continue;
+        if (action === 'overwrite') console.log(chalk.cyan(`Overwrote ${conflict.path}`));
+        if (action === 'skip') console.log(chalk.yellow(`Kept ${conflict.path}`));
+        if (action === 'new') {
+          console.log(chalk.yellow(`Wrote ${conflict.path}.new, ${conflict.path} is unchanged`));
+        }
+      }
+    });
+  }
+
+  private async askConflictAction(conflict: Conflict): Promise<ConflictAction> {
+    for (;;) {
+      const { action } = await inquirer.prompt([
+        {
+          type: 'list',
+          name: 'action',
+          message: `${conflict.path} already exists and differs from the generated file.`,
+          choices: [
+            { name: 'Overwrite it', value: 'overwrite' },
+            { name: 'Skip, keep the existing file', value: 'skip' },
+            { name: 'Show the diff', value: 'diff' },
+            { name: `Write the generated file as ${conflict.path}.new`, value: 'new' },
+          ],
+        },
+      ]);
+      if (action !== 'diff') return action;
+      console.log(formatDiff(conflict.current, conflict.content));
+    }
+  }
+
+  /**
+   * Install the dependencies with the chosen package manager, unless turned
+   * off or the package manager is not on PATH. When it fails only what it
+   * added is removed, the generated files are kept.
+   */
+  protected async install() {
+    if (this.installDependencies === false) return;
+    const pm = this.packageManager;
+    if (!this.dryRun && !(await commandExists(pm))) {
+      console.log(chalk.yellow(`${pm} is not on PATH, skipped installing the dependencies.`));
+      return;
+    }
+    LockFiles[pm].forEach((file) => this.journal?.recordFile(file));
+    this.journal?.recordDir('node_modules');
+    this.installed = await this.runOptionalCommand(
+      `Installing dependencies with ${pm}`,
+      InstallCommands[pm],
+      [...LockFiles[pm], 'node_modules'],
+    );
+  }
+
+  /**
+   * Build a TypeScript project once its dependencies are installed. When it
+   * fails only `dist` is removed.
+   */
+  protected async build() {
+    if (this.promptOrConfig.language !== LANGUAGE.TYPESCRIPT) return;
+    if (!this.installed && !this.dryRun) return;
+    this.journal?.recordDir('dist');
+    this.built = await this.runOptionalCommand('Building', `${this.packageManager} run build`, [
+      'dist',
+    ]);
+  }
+
+  /**
+   * Init a git repository with an initial commit. Skipped when git is not on
+   * PATH or the project is already inside a repository; a commit git refuses,
+   * e.g. without a configured user, only leaves the repository uncommitted.
+   */
+  protected async initGit() {
+    if (!this.gitInit) return;
+    if (this.dryRun) {
+      await this.runCommand('git init', 'git init');
+      return;
+    }
+    if (!(await commandExists('git'))) {
+      console.log(chalk.yellow('git is not on PATH, skipped creating a repository.'));
+      return;
+    }
+    if (await isInsideGitRepo(this.projectPath)) {
+      console.log(chalk.dim('Already inside a git repository, skipped git init.'));
+      return;
+    }
+    this.journal?.recordDir('.git');
+    await this.safe(async () => {
+      await execAsync('git init', { cwd: this.projectPath });
+    });
+    const spinner = ora('Creating the initial commit...').start();
+    try {
+      // the journal is dropped once the build completes
+      await execAsync(`git add -A -- . ":(exclude)${JournalFile}"`, { cwd: this.projectPath });
+      await execAsync('git commit -m "Initial commit from create-express-app"', {
+        cwd: this.projectPath,
+      });
+      spinner.succeed('Initialized a git repository with an initial commit');
+    } catch (err) {
+      const { stderr = '', message = String(err) } = err as { stderr?: string; message?: string };
+      const reason = stderr.split('\n').find((line) => line.startsWith('fatal:')) ?? message;
+      spinner.warn(`Initialized a git repository, but skipped the initial commit (${reason})`);
+    }
+  }
+
+  /**
+   * Run the `finalize` step
+   */
+  async finalize() {
+    await this.runStep('finalize', () => this.printNextSteps());
     return this;
   }
 
   /**
-   * Finalize project setup: print next steps to console
+   * Print next steps to console, or the generated tree for a dry run
    */
-  finalize() {
+  protected printNextSteps() {
+    if (this.dryRun) {
+      const fileSystem = this.dryRunFileSystem as MemoryFileSystem;
+      console.log(
+        `\n${formatDryRun(this.projectName, fileSystem.generatedFiles(), fileSystem.directories())}`,
+      );
+      console.log(chalk.yellow.bold('\nDry run: nothing was written to disk.'));
+      return;
+    }
     console.log(chalk.green.bold('\n✅ Happy Hacking!'));
     console.log(chalk.cyan('\nNext steps:'));
-    console.log(`  cd ${this.projectName}`);
-    console.log(`  ${InstallCommands[this.packageManager]}`);
-    if (this.promptOrConfig.language === LANGUAGE.TYPESCRIPT) {
+    if (this.projectPath !== process.cwd()) console.log(`  cd ${this.projectName}`);
+    if (!this.installed) console.log(`  ${InstallCommands[this.packageManager]}`);
+    if (this.promptOrConfig.language === LANGUAGE.TYPESCRIPT && !this.built) {
       console.log(`  ${this.packageManager} run build`);
     }
+    DatabaseSetupScripts[this.promptOrConfig.database ?? DATABASE.NONE].forEach((script) =>
+      console.log(`  ${this.packageManager} run ${script}`),
+    );
     console.log(`  ${this.packageManager} run start`);
   }
 }
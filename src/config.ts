@@ -0,0 +1,172 @@
+import {
+  DATABASE,
+  DatabaseFeature,
+  LANGUAGE,
+  PACKAGEMANAGER,
+  TESTRUNNER,
+  TestRunnerFeature,
+} from './utils.js';
+
+/**
+ * Thrown when a config passed to a builder has the wrong shape or values.
+ */
+export class InvalidBuilderConfigError extends Error {
+  constructor(public readonly problems: string[]) {
+    super(`Invalid builder config:\n${problems.map((problem) => `  ${problem}`).join('\n')}`);
+    this.name = 'InvalidBuilderConfigError';
+  }
+}
+
+const ConfigOptions = [
+  'language',
+  'features',
+  'testRunner',
+  'database',
+  'packageManager',
+  'extras',
+  'questions',
+];
+
+const LanguageHints: Record<string, LANGUAGE> = {
+  ts: LANGUAGE.TYPESCRIPT,
+  typescript: LANGUAGE.TYPESCRIPT,
+  js: LANGUAGE.JAVASCRIPT,
+  javascript: LANGUAGE.JAVASCRIPT,
+};
+
+function typeOf(value: unknown) {
+  if (Array.isArray(value)) return 'array';
+  return value === null ? 'null' : typeof value;
+}
+
+function quoted(values: readonly string[]) {
+  return values.map((v) => `"${v}"`).join(', ');
+}
+
+/**
+ * Problems of the features behind a choice, e.g. the test runner: more than
+ * one of them selected, or one that differs from the chosen value.
+ */
+function choiceFeatureProblems(
+  option: string,
+  label: string,
+  featureOf: Record<string, string>,
+  value: unknown,
+  ids: string[],
+): string[] {
+  const selected = Object.entries(featureOf).filter(([, feature]) => ids.includes(feature));
+  if (selected.length > 1) {
+    return [`features: select a single ${label}, got ${quoted(selected.map(([, f]) => f))}`];
+  }
+  const [chosen] = selected;
+  if (chosen && Object.keys(featureOf).includes(value as string) && chosen[0] !== value) {
+    return [`${option}: "${value}" conflicts with the "${chosen[1]}" feature`];
+  }
+  return [];
+}
+
+function stringListProblems(value: unknown, at: string): string[] {
+  if (!Array.isArray(value)) return [`${at}: expected an array, got ${typeOf(value)}`];
+  return value.flatMap((item, i) =>
+    typeof item === 'string' ? [] : [`${at}[${i}]: expected a string, got ${typeOf(item)}`],
+  );
+}
+
+/**
+ * Check a builder config, i.e. the answers (and `extras`) passed to the
+ * constructor or `setConfig()`. Missing options are fine, they get defaults.
+ * @param knownFeatures - Feature ids that can be selected; when left out,
+ * feature ids are not checked, e.g. because plugins are still to be registered
+ * @param questionNames - Names of the builder's extra questions, which a config can answer
+ * @throws InvalidBuilderConfigError listing every problem
+ */
+export function validateBuilderConfig(
+  config: unknown,
+  knownFeatures?: readonly string[],
+  questionNames: readonly string[] = [],
+) {
+  if (typeOf(config) !== 'object') {
+    throw new InvalidBuilderConfigError([`expected an object, got ${typeOf(config)}`]);
+  }
+  const { language, features, testRunner, database, packageManager, extras, questions, ...rest } =
+    config as Record<string, unknown>;
+  const options = [...ConfigOptions, ...questionNames];
+  const problems = Object.keys(rest)
+    .filter((key) => !questionNames.includes(key))
+    .map((key) => `unknown option "${key}", expected one of: ${options.join(', ')}`);
+  if (questions !== undefined && !Array.isArray(questions)) {
+    problems.push(`questions: expected an array, got ${typeOf(questions)}`);
+  }
+
+  const languages = Object.values(LANGUAGE) as string[];
+  if (language !== undefined && !languages.includes(language as string)) {
+    const hint = typeof language === 'string' && LanguageHints[language.toLowerCase()];
+    problems.push(
+      `language: expected one of ${quoted(languages)}, got ${JSON.stringify(language)}` +
+        (hint ? ` (did you mean "${hint}"?)` : ''),
+    );
+  }
+
+  const runners = Object.values(TESTRUNNER) as string[];
+  if (testRunner !== undefined && !runners.includes(testRunner as string)) {
+    problems.push(
+      `testRunner: expected one of ${quoted(runners)}, got ${JSON.stringify(testRunner)}`,
+    );
+  }
+
+  const databases = Object.values(DATABASE) as string[];
+  if (database !== undefined && !databases.includes(database as string)) {
+    problems.push(
+      `database: expected one of ${quoted(databases)}, got ${JSON.stringify(database)}`,
+    );
+  }
+
+  const packageManagers = Object.values(PACKAGEMANAGER) as string[];
+  if (packageManager !== undefined && !packageManagers.includes(packageManager as string)) {
+    problems.push(
+      `packageManager: expected one of ${quoted(packageManagers)}, ` +
+        `got ${JSON.stringify(packageManager)}`,
+    );
+  }
+
+  if (features !== undefined) {
+    const shape = stringListProblems(features, 'features');
+    problems.push(...shape);
+    if (!shape.length) {
+      const ids = features as string[];
+      if (knownFeatures) {
+        ids.forEach((id, i) => {
+          if (!knownFeatures.includes(id)) {
+            problems.push(
+              `features[${i}]: unknown feature "${id}", expected one of: ` +
+                `${knownFeatures.join(', ')} (register custom features with use())`,
+            );
+          }
+        });
+      }
+      problems.push(
+        ...choiceFeatureProblems('testRunner', 'test runner', TestRunnerFeature, testRunner, ids),
+        ...choiceFeatureProblems('database', 'database', DatabaseFeature, database, ids),
+      );
+    }
+  }
+
+  if (extras !== undefined) {
+    if (typeOf(extras) !== 'object') {
+      problems.push(`extras: expected an object, got ${typeOf(extras)}`);
+    } else {
+      const { dependencies, devDependencies, ...rest } = extras as Record<string, unknown>;
+      Object.keys(rest).forEach((key) =>
+        problems.push(`extras: unknown option "${key}", expected dependencies or devDependencies`),
+      );
+      if (dependencies !== undefined) {
+        problems.push(...stringListProblems(dependencies, 'extras.dependencies'));
+      }
+      if (devDependencies !== undefined) {
+        problems.push(...stringListProblems(devDependencies, 'extras.devDependencies'));
+      }
+    }
+  }
+
+  if (problems.length) throw new InvalidBuilderConfigError(problems);
+}
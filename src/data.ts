@@ -1,80 +1,2042 @@
-import { LANGUAGE } from './utils.js';
+import {
+  DATABASE,
+  FEATURES,
+  getFileExtension,
+  LANGUAGE,
+  LockFiles,
+  PACKAGEMANAGER,
+} from './utils.js';
 
-export function returnIndexFile(language: LANGUAGE) {
-  return `import dotenv from "dotenv";
+type TestRunner = FEATURES.JEST | FEATURES.VITEST;
 
-dotenv.config();
+function returnTestImports(runner: TestRunner) {
+  return runner === FEATURES.VITEST ? 'import { describe, expect, it } from "vitest";\n' : '';
+}
+
+/**
+ * @param logging - Log the startup with the logger of the Logging feature
+ * @param database - Connect to the database of `src/db` before listening, and
+ * disconnect on shutdown
+ */
+export function returnIndexFile(language: LANGUAGE, logging = false, database = false) {
+  const js = language != LANGUAGE.TYPESCRIPT ? '.js' : '';
+  const log = logging ? 'logger.info' : 'console.log';
+  const imports = `import { config } from "./config${js ? '/index.js' : ''}";
+import app from "./app${js}";${database ? `\nimport { connectDatabase, disconnectDatabase } from "./db${js ? '/index.js' : ''}";` : ''}
+import { handleShutdown${database ? ', onShutdown' : ''} } from "./utils/shutdown${js}";${logging ? `\nimport { logger } from "./utils/logger${js}";` : ''}`;
+  if (!database) {
+    return `${imports}
+
+const server = app.listen(config.port, () => {
+    ${log}(\`🚀 Server running on http://localhost:\${config.port}\`);
+});
 
-import app from "./app${language != LANGUAGE.TYPESCRIPT ? '.js' : ''}";
+handleShutdown(server);`;
+  }
+  return `${imports}
 
-const PORT = process.env.PORT || 3000;
-app.listen(PORT, () => {
-    console.log(\`🚀 Server running on http://localhost:\${PORT}\`);
+async function start() {
+    await connectDatabase();
+    onShutdown(disconnectDatabase);
+    const server = app.listen(config.port, () => {
+        ${log}(\`🚀 Server running on http://localhost:\${config.port}\`);
+    });
+    handleShutdown(server);
+}
+
+start().catch((err) => {
+    ${logging ? 'logger.fatal({ err }, "Failed to start")' : 'console.error("Failed to start", err)'};
+    process.exit(1);
 });`;
 }
 
-export function returnAppFile(language: LANGUAGE) {
-  return `import express from "express";
-import cors from "cors";
-import bodyParser from "body-parser";
+/**
+ * Readiness registry behind `/health/ready`.
+ */
+export function returnHealthFile(language: LANGUAGE) {
+  if (language === LANGUAGE.TYPESCRIPT) {
+    return `/**
+ * Resolves when a dependency can serve requests; throwing or resolving to
+ * \`false\` marks the app as not ready.
+ */
+export type ReadinessCheck = () => boolean | void | Promise<boolean | void>;
 
-import router from "./routes${language != LANGUAGE.TYPESCRIPT ? '.js' : ''}";
+const checks = new Map<string, ReadinessCheck>();
+let shuttingDown = false;
 
-const app = express();
+/**
+ * Make \`/health/ready\` depend on \`check\`, e.g. a database ping. A check added
+ * again under the same name replaces the previous one.
+ */
+export function addReadinessCheck(name: string, check: ReadinessCheck) {
+    checks.set(name, check);
+}
 
-app.use(cors({origin: "*", credentials: true,}));
+/**
+ * Report not ready from now on, so load balancers stop sending traffic while
+ * the server drains.
+ */
+export function markShuttingDown() {
+    shuttingDown = true;
+}
 
-app.use(express.urlencoded({ extended: true }));
-app.use(bodyParser.json());
-app.use(
-    bodyParser.urlencoded({
-    extended: true,
-    })
+async function passes(check: ReadinessCheck) {
+    try {
+        return (await check()) !== false;
+    } catch {
+        return false;
+    }
+}
+
+/**
+ * Run every readiness check.
+ */
+export async function checkReadiness() {
+    const results = await Promise.all(
+        [...checks].map(async ([name, check]) => [name, (await passes(check)) ? "ok" : "failed"] as const),
+    );
+    return {
+        ready: !shuttingDown && results.every(([, status]) => status === "ok"),
+        checks: Object.fromEntries(results),
+    };
+}
+`;
+  }
+  return `const checks = new Map();
+let shuttingDown = false;
+
+/**
+ * Make \`/health/ready\` depend on \`check\`, e.g. a database ping. The check
+ * resolves when the dependency can serve requests; throwing or resolving to
+ * \`false\` marks the app as not ready. A check added again under the same
+ * name replaces the previous one.
+ */
+export function addReadinessCheck(name, check) {
+    checks.set(name, check);
+}
+
+/**
+ * Report not ready from now on, so load balancers stop sending traffic while
+ * the server drains.
+ */
+export function markShuttingDown() {
+    shuttingDown = true;
+}
+
+async function passes(check) {
+    try {
+        return (await check()) !== false;
+    } catch {
+        return false;
+    }
+}
+
+/**
+ * Run every readiness check.
+ */
+export async function checkReadiness() {
+    const results = await Promise.all(
+        [...checks].map(async ([name, check]) => [name, (await passes(check)) ? "ok" : "failed"]),
+    );
+    return {
+        ready: !shuttingDown && results.every(([, status]) => status === "ok"),
+        checks: Object.fromEntries(results),
+    };
+}
+`;
+}
+
+/**
+ * `/health/live` and `/health/ready`, for liveness and readiness probes.
+ */
+export function returnHealthRoute(language: LANGUAGE) {
+  const ts = language === LANGUAGE.TYPESCRIPT;
+  const from = (module: string) => (ts ? `@/${module}` : `../${module}.js`);
+  return `import { Router } from "express";
+import { asyncHandler } from "${from('utils/async-handler')}";
+import { checkReadiness } from "${from('utils/health')}";
+
+export const healthRoute = Router();
+
+// the process is up and serving requests
+healthRoute.get("/health/live", (_req, res) => {
+    res.json({ status: "ok" });
+});
+
+// every readiness check passes and the server is not shutting down
+healthRoute.get(
+    "/health/ready",
+    asyncHandler(async (_req, res) => {
+        const { ready, checks } = await checkReadiness();
+        res.status(ready ? 200 : 503).json({ status: ready ? "ok" : "unavailable", checks });
+    }),
+);
+`;
+}
+
+/**
+ * Graceful shutdown on SIGTERM / SIGINT, with hooks to close connections.
+ * @param logging - Log with the logger of the Logging feature
+ */
+export function returnShutdownFile(language: LANGUAGE, logging = false) {
+  const ts = language === LANGUAGE.TYPESCRIPT;
+  const from = (module: string) => (ts ? `@/${module}` : `../${module}.js`);
+  const log = logging ? 'logger' : 'console';
+  const imports = [
+    ...(ts ? ['import type { Server } from "node:http";'] : []),
+    `import { config } from "${ts ? '@/config' : '../config/index.js'}";`,
+    `import { markShuttingDown } from "${from('utils/health')}";`,
+    ...(logging ? [`import { logger } from "${from('utils/logger')}";`] : []),
+  ];
+  return `${imports.join('\n')}
+${ts ? '\ntype ShutdownHook = () => unknown;\n' : ''}
+const hooks${ts ? ': ShutdownHook[]' : ''} = [];
+
+/**
+ * Run \`hook\` once the server has stopped taking requests, e.g. to close a
+ * database connection. Hooks run in reverse order of registration.
+ */
+export function onShutdown(hook${ts ? ': ShutdownHook' : ''}) {
+    hooks.unshift(hook);
+}
+
+/**
+ * On SIGTERM or SIGINT: report not ready, stop accepting connections, let the
+ * in-flight requests finish, run the shutdown hooks and exit. Open connections
+ * are dropped after \`SHUTDOWN_TIMEOUT\` milliseconds.
+ */
+export function handleShutdown(server${ts ? ': Server' : ''}) {
+    let closing = false;
+
+    async function shutdown(signal${ts ? ': NodeJS.Signals' : ''}) {
+        if (closing) return;
+        closing = true;
+        ${log}.info(\`\${signal} received, shutting down\`);
+        markShuttingDown();
+        setTimeout(() => {
+            ${log}.error(\`Shutdown took over \${config.shutdownTimeout}ms, dropping open connections\`);
+            server.closeAllConnections();
+            process.exit(1);
+        }, config.shutdownTimeout).unref();
+        try {
+            await new Promise${ts ? '<void>' : ''}((resolve, reject) =>
+                server.close((err) => (err ? reject(err) : resolve())),
+            );
+            for (const hook of hooks) await hook();
+            process.exit(0);
+        } catch (err) {
+            ${log}.error(${logging ? '{ err }, "Shutdown failed"' : '"Shutdown failed", err'});
+            process.exit(1);
+        }
+    }
+
+    process.on("SIGTERM", (signal) => void shutdown(signal));
+    process.on("SIGINT", (signal) => void shutdown(signal));
+}
+`;
+}
+
+/**
+ * An environment variable read by a generated config module.
+ */
+export interface EnvVar {
+  /** Variable name, e.g. `PORT` */
+  name: string;
+  /** Key on the config object, e.g. `port` */
+  key: string;
+  /** `list` is a comma separated string parsed to `string[]` */
+  type: 'string' | 'number' | 'list' | 'enum';
+  /** Allowed values of an `enum` */
+  values?: string[];
+  /** Used when the variable is unset; the variable is required without one */
+  default?: string;
+  description: string;
+  /** Value written to `.env.example`, defaults to `default` */
+  example?: string;
+  /** Value written to `.env.development` */
+  development?: string;
+  /** Value written to `.env.test` */
+  test?: string;
+}
+
+export const BaseEnvVars: EnvVar[] = [
+  {
+    name: 'NODE_ENV',
+    key: 'env',
+    type: 'enum',
+    values: ['development', 'test', 'production'],
+    default: 'development',
+    description: 'development, test or production; also picks the .env.<NODE_ENV> file',
+  },
+  {
+    name: 'PORT',
+    key: 'port',
+    type: 'number',
+    default: '3000',
+    description: 'Port the server listens on',
+    development: '3000',
+  },
+  {
+    name: 'TRUST_PROXY',
+    key: 'trustProxy',
+    type: 'number',
+    default: '0',
+    description: 'Number of reverse proxies in front of the app (Express "trust proxy")',
+  },
+  {
+    name: 'SHUTDOWN_TIMEOUT',
+    key: 'shutdownTimeout',
+    type: 'number',
+    default: '10000',
+    description: 'Milliseconds to let in-flight requests finish on SIGTERM / SIGINT',
+  },
+];
+
+export const SecurityEnvVars: EnvVar[] = [
+  {
+    name: 'CORS_ORIGINS',
+    key: 'corsOrigins',
+    type: 'list',
+    default: '',
+    example: 'http://localhost:5173',
+    description: 'Comma separated origins allowed by CORS, none when empty',
+    development: 'http://localhost:5173',
+  },
+  {
+    name: 'RATE_LIMIT_MAX',
+    key: 'rateLimitMax',
+    type: 'number',
+    default: '100',
+    description: 'Requests allowed per client every 15 minutes',
+    test: '1000',
+  },
+  {
+    name: 'BODY_LIMIT',
+    key: 'bodyLimit',
+    type: 'string',
+    default: '100kb',
+    description: 'Largest accepted JSON or urlencoded body',
+  },
+];
+
+/**
+ * `src/config/env`: loads the .env files and exports the helpers config
+ * modules validate `process.env` with.
+ * @param zod - Validate with Zod schemas instead of the built-in validators
+ */
+export function returnEnvHelperFile(language: LANGUAGE, zod: boolean) {
+  const ts = language === LANGUAGE.TYPESCRIPT;
+  const header = `import dotenv from "dotenv";${zod && ts ? '\nimport type { z } from "zod";' : ''}
+
+// variables already set win over .env.<NODE_ENV>, which wins over .env
+dotenv.config({ path: [\`.env.\${process.env.NODE_ENV || "development"}\`, ".env"] });
+
+function fail(problems${ts ? ': string[]' : ''})${ts ? ': never' : ''} {
+    throw new Error(\`Invalid environment variables:\\n\${problems.map((p) => \`  \${p}\`).join("\\n")}\`);
+}
+
+/**
+ * Split a comma separated list, dropping empty entries.
+ */
+export function splitList(value${ts ? ': string' : ''}) {
+    return value
+        .split(",")
+        .map((item) => item.trim())
+        .filter(Boolean);
+}
+`;
+  if (zod) {
+    return `${header}
+/**
+ * Validate \`process.env\` against a Zod schema, failing with every invalid variable.
+ */
+export function parseEnv${ts ? '<T extends z.ZodTypeAny>(schema: T): z.infer<T>' : '(schema)'} {
+    const result = schema.safeParse(process.env);
+    if (!result.success) {
+        fail(result.error.issues.map((issue) => \`\${issue.path.join(".")}: \${issue.message}\`));
+    }
+    return result.data;
+}
+`;
+  }
+  if (!ts) {
+    return `${header}
+function read(value, fallback) {
+    const raw = value === undefined || value === "" ? fallback : value;
+    if (raw === undefined) throw new Error("is required");
+    return raw;
+}
+
+export const str = (fallback) => (value) => read(value, fallback);
+
+export const num = (fallback) => (value) => {
+    const raw = read(value, fallback?.toString());
+    const parsed = Number(raw);
+    if (!Number.isFinite(parsed)) throw new Error(\`must be a number, got "\${raw}"\`);
+    return parsed;
+};
+
+export const list = (fallback) => (value) => splitList(read(value, fallback));
+
+export const oneOf = (values, fallback) => (value) => {
+    const raw = read(value, fallback);
+    if (!values.includes(raw)) {
+        throw new Error(\`must be one of \${values.join(", ")}, got "\${raw}"\`);
+    }
+    return raw;
+};
+
+/**
+ * Read every variable of the spec from \`process.env\`, failing with every invalid one.
+ */
+export function parseEnv(spec) {
+    const env = {};
+    const problems = [];
+    for (const name of Object.keys(spec)) {
+        try {
+            env[name] = spec[name](process.env[name]);
+        } catch (err) {
+            problems.push(\`\${name}: \${err.message}\`);
+        }
+    }
+    if (problems.length) fail(problems);
+    return env;
+}
+`;
+  }
+  return `${header}
+type Parser<T> = (value: string | undefined) => T;
+
+function read(value: string | undefined, fallback?: string) {
+    const raw = value === undefined || value === "" ? fallback : value;
+    if (raw === undefined) throw new Error("is required");
+    return raw;
+}
+
+export const str =
+    (fallback?: string): Parser<string> =>
+    (value) =>
+        read(value, fallback);
+
+export const num =
+    (fallback?: number): Parser<number> =>
+    (value) => {
+        const raw = read(value, fallback?.toString());
+        const parsed = Number(raw);
+        if (!Number.isFinite(parsed)) throw new Error(\`must be a number, got "\${raw}"\`);
+        return parsed;
+    };
+
+export const list =
+    (fallback?: string): Parser<string[]> =>
+    (value) =>
+        splitList(read(value, fallback));
+
+export const oneOf =
+    <const T extends string>(values: readonly T[], fallback?: T): Parser<T> =>
+    (value) => {
+        const raw = read(value, fallback);
+        if (!values.includes(raw as T)) {
+            throw new Error(\`must be one of \${values.join(", ")}, got "\${raw}"\`);
+        }
+        return raw as T;
+    };
+
+/**
+ * Read every variable of the spec from \`process.env\`, failing with every invalid one.
+ */
+export function parseEnv<T extends Record<string, Parser<unknown>>>(
+    spec: T,
+): { [K in keyof T]: ReturnType<T[K]> } {
+    const env = {} as { [K in keyof T]: ReturnType<T[K]> };
+    const problems: string[] = [];
+    for (const name of Object.keys(spec) as (keyof T & string)[]) {
+        try {
+            env[name] = spec[name](process.env[name]) as ReturnType<T[typeof name]>;
+        } catch (err) {
+            problems.push(\`\${name}: \${(err as Error).message}\`);
+        }
+    }
+    if (problems.length) fail(problems);
+    return env;
+}
+`;
+}
+
+function literals(values: string[] = []) {
+  return `[${values.map((value) => JSON.stringify(value)).join(', ')}]`;
+}
+
+function zodEnvSchema(variable: EnvVar) {
+  const fallback =
+    variable.default !== undefined ? `.default(${JSON.stringify(variable.default)})` : '';
+  switch (variable.type) {
+    case 'enum':
+      return `z.enum(${literals(variable.values)})${fallback}`;
+    case 'number':
+      return `z.coerce.number()${fallback && `.default(${variable.default})`}`;
+    case 'list':
+      return `z.string()${fallback || '.min(1)'}.transform(splitList)`;
+    case 'string':
+      return `z.string()${fallback || '.min(1)'}`;
+  }
+}
+
+function envParser(variable: EnvVar) {
+  const fallback = variable.default !== undefined ? JSON.stringify(variable.default) : '';
+  switch (variable.type) {
+    case 'enum':
+      return `oneOf(${literals(variable.values)}${fallback && `, ${fallback}`})`;
+    case 'number':
+      return `num(${variable.default ?? ''})`;
+    case 'list':
+      return `list(${fallback})`;
+    case 'string':
+      return `str(${fallback})`;
+  }
+}
+
+/**
+ * A config module under `src/config`, exporting a typed object read from the
+ * environment once, at import time.
+ * @param exportName - Name of the exported object, e.g. `config`
+ * @param derived - Extra keys computed from `env`, e.g. `{ isProduction: 'env.NODE_ENV === "production"' }`
+ */
+export function returnConfigFile(
+  language: LANGUAGE,
+  zod: boolean,
+  exportName: string,
+  variables: EnvVar[],
+  derived: Record<string, string> = {},
+) {
+  const envModule = `./env${language === LANGUAGE.TYPESCRIPT ? '' : '.js'}`;
+  const helpers = zod
+    ? ['parseEnv', ...(variables.some((v) => v.type === 'list') ? ['splitList'] : [])]
+    : [...new Set(variables.map((v) => envParser(v).split('(')[0])), 'parseEnv'].sort();
+  const entries = variables.map(
+    (v) => `        ${v.name}: ${zod ? zodEnvSchema(v) : envParser(v)},`,
+  );
+  const spec = zod
+    ? `z.object({\n${entries.join('\n')}\n    })`
+    : `{\n${entries.map((e) => e.slice(4)).join('\n')}\n}`;
+  const keys = [
+    ...variables.map((v) => `    ${v.key}: env.${v.name},`),
+    ...Object.entries(derived).map(([key, expression]) => `    ${key}: ${expression},`),
+  ];
+  return `${zod ? 'import { z } from "zod";\n' : ''}import { ${helpers.join(', ')} } from "${envModule}";
+
+const env = parseEnv(${zod ? `\n    ${spec},\n` : spec});
+
+export const ${exportName} = {
+${keys.join('\n')}
+};
+`;
+}
+
+/**
+ * Contents of `.env.example` (every variable, documented) or of the
+ * `.env.development` / `.env.test` files.
+ */
+export function returnEnvFile(variables: EnvVar[], environment?: 'development' | 'test') {
+  if (!environment) {
+    return `# Copy to .env and adjust. .env.<NODE_ENV> files are read first and win over .env.
+${variables
+  .map(
+    (v) =>
+      `\n# ${v.description}${v.default === undefined ? ' (required)' : ''}\n${v.name}=${v.example ?? v.default ?? ''}`,
+  )
+  .join('\n')}
+`;
+  }
+  const values = variables.filter((v) => v[environment] !== undefined);
+  return `# Loaded when NODE_ENV=${environment}, before .env. Keep secrets out of this file.
+${values.map((v) => `${v.name}=${v[environment]}`).join('\n')}
+`;
+}
+
+/**
+ * ESLint flat config, with typescript-eslint for TypeScript.
+ * @param jest - Allow the Jest globals in the tests
+ */
+export function returnEslintConfig(language: LANGUAGE, jest = false) {
+  const ts = language === LANGUAGE.TYPESCRIPT;
+  const tests = jest
+    ? `
+    {
+        files: ["tests/**"],
+        languageOptions: { globals: globals.jest },
+    },`
+    : '';
+  return `import js from "@eslint/js";
+import { defineConfig } from "eslint/config";
+import globals from "globals";${ts ? '\nimport tseslint from "typescript-eslint";' : ''}
+
+export default defineConfig(
+    { ignores: ["dist", "coverage"] },
+    js.configs.recommended,${ts ? '\n    tseslint.configs.recommended,' : ''}
+    {
+        languageOptions: { globals: globals.node },
+    },${tests}
 );
+`;
+}
+
+export function returnPrettierConfig() {
+  return JSON.stringify({ semi: true, trailingComma: 'all' }, null, 2) + '\n';
+}
+
+/**
+ * nodemon config of the `dev` script. TypeScript runs through tsx, which
+ * resolves the `@/*` paths of tsconfig.json without a build.
+ */
+export function returnNodemonConfig(language: LANGUAGE) {
+  const ts = language === LANGUAGE.TYPESCRIPT;
+  return JSON.stringify(
+    {
+      watch: ['src'],
+      ext: ts ? 'ts,json' : 'js,json',
+      exec: ts ? 'tsx src/index.ts' : 'node src/index.js',
+    },
+    null,
+    2,
+  );
+}
+
+/**
+ * Code a feature adds to the generated app file. Import paths are relative
+ * to `src/app`.
+ */
+export interface AppInjections {
+  /** Import statements, e.g. `import { security } from "./middlewares/security";` */
+  imports?: string[];
+  /** Statements run before the body parsers, e.g. `app.use(security());` */
+  middleware?: string[];
+  /** Expression passed as the body parsers' `limit` */
+  bodyLimit?: string;
+  /** Statements run after the API router, before the 404 and error handlers */
+  routes?: string[];
+  /** The feature mounts its own CORS middleware, so the default `cors()` is left out */
+  cors?: boolean;
+}
+
+export function returnAppFile(language: LANGUAGE, injections: AppInjections = {}) {
+  const js = language != LANGUAGE.TYPESCRIPT ? '.js' : '';
+  const imports = [
+    `import { config } from "./config${js ? '/index.js' : ''}";`,
+    `import router from "./routes${js ? '/index.js' : ''}";`,
+    `import { healthRoute } from "./routes/health${js}";`,
+    `import { errorHandler, notFound } from "./middlewares/error${js}";`,
+    ...(injections.imports ?? []),
+  ];
+  const middleware = [
+    ...(injections.cors ? [] : ['app.use(cors());']),
+    ...(injections.middleware ?? []),
+  ];
+  const limit = injections.bodyLimit ? `limit: ${injections.bodyLimit} ` : '';
+  const routes = injections.routes?.length ? `\n${injections.routes.join('\n')}\n` : '';
+  return `import express from "express";${injections.cors ? '' : '\nimport cors from "cors";'}
+
+${imports.join('\n')}
+
+const app = express();
+
+app.set("trust proxy", config.trustProxy);
+// probes skip the middleware below, e.g. rate limiting and request logs
+app.use(healthRoute);
+${middleware.join('\n')}
+
+app.use(express.json(${limit && `{ ${limit}}`}));
+app.use(express.urlencoded({ extended: true${limit && `, ${limit.trim()}`} }));
 
 app.use("/api", router);
-    
+${routes}
+app.use(notFound);
+app.use(errorHandler);
+
 export default app;`;
 }
 
-export function returnRouteData(language: LANGUAGE, name: string) {
+export const LoggingEnvVars: EnvVar[] = [
+  {
+    name: 'LOG_LEVEL',
+    key: 'logLevel',
+    type: 'enum',
+    values: ['fatal', 'error', 'warn', 'info', 'debug', 'trace', 'silent'],
+    default: 'info',
+    description: 'Least severe level logged, silent turns logging off',
+    development: 'debug',
+    test: 'silent',
+  },
+];
+
+/**
+ * pino logger: JSON lines, pretty printed in development.
+ */
+export function returnLoggerFile(language: LANGUAGE) {
+  const ts = language === LANGUAGE.TYPESCRIPT;
+  return `import pino from "pino";
+import { config } from "${ts ? '@/config' : '../config/index.js'}";
+import { loggingConfig } from "${ts ? '@/config/logging' : '../config/logging.js'}";
+
+/**
+ * The app logger, at \`LOG_LEVEL\`. Request handlers log through \`req.log\`
+ * instead, which adds the request ID.
+ */
+export const logger = pino({
+    level: loggingConfig.logLevel,
+    // pino-pretty is a dev dependency, production logs stay JSON
+    ...(config.env === "development" && {
+        transport: { target: "pino-pretty", options: { colorize: true } },
+    }),
+});
+`;
+}
+
+/**
+ * pino-http middleware logging each request under an ID, taken from the
+ * \`X-Request-Id\` header when present and sent back in it.
+ */
+export function returnRequestLoggerMiddleware(language: LANGUAGE) {
+  const ts = language === LANGUAGE.TYPESCRIPT;
+  return `import { randomUUID } from "node:crypto";
+import pinoHttp from "pino-http";
+import { logger } from "${ts ? '@/utils/logger' : '../utils/logger.js'}";
+
+/**
+ * Keep the ID a proxy or client sent when it looks like one, or make one.
+ */
+function requestId(header${ts ? ': string | string[] | undefined' : ''}) {
+    return typeof header === "string" && /^[\\w.:-]{1,128}$/.test(header) ? header : randomUUID();
+}
+
+/**
+ * Log every request with its status and duration. The request ID is sent back
+ * as \`X-Request-Id\` and added to every line logged through \`req.log\`.
+ */
+export const requestLogger = pinoHttp({
+    logger,
+    // keep credentials out of the logs
+    redact: ["req.headers.authorization", "req.headers.cookie", 'res.headers["set-cookie"]'],
+    genReqId: (req, res) => {
+        const id = requestId(req.headers["x-request-id"]);
+        res.setHeader("X-Request-Id", id);
+        return id;
+    },
+});
+`;
+}
+
+export function returnSecurityMiddleware(language: LANGUAGE) {
+  const ts = language === LANGUAGE.TYPESCRIPT;
+  return `${ts ? 'import type { RequestHandler } from "express";\n' : ''}import cors from "cors";
+import helmet from "helmet";
+import { rateLimit } from "express-rate-limit";
+import { securityConfig } from "${ts ? '@/config/security' : '../config/security.js'}";
+
+/**
+ * Security headers, the \`CORS_ORIGINS\` allowlist and rate limiting
+ * (\`RATE_LIMIT_MAX\` requests per client every 15 minutes). Mount before the routes.
+ */
+export function security()${ts ? ': RequestHandler[]' : ''} {
+    return [
+        helmet(),
+        cors({ origin: securityConfig.corsOrigins, credentials: true }),
+        rateLimit({
+            windowMs: 15 * 60 * 1000,
+            limit: securityConfig.rateLimitMax,
+            standardHeaders: "draft-8",
+            legacyHeaders: false,
+        }),
+    ];
+}
+`;
+}
+
+export const AuthEnvVars: EnvVar[] = [
+  {
+    name: 'JWT_ACCESS_SECRET',
+    key: 'accessSecret',
+    type: 'string',
+    description: 'Secret signing the access tokens, a long random string',
+    development: 'dev-access-secret-change-me',
+    test: 'test-access-secret',
+  },
+  {
+    name: 'JWT_REFRESH_SECRET',
+    key: 'refreshSecret',
+    type: 'string',
+    description: 'Secret signing the refresh tokens, different from JWT_ACCESS_SECRET',
+    development: 'dev-refresh-secret-change-me',
+    test: 'test-refresh-secret',
+  },
+  {
+    name: 'JWT_ACCESS_TTL',
+    key: 'accessTtl',
+    type: 'number',
+    default: '900',
+    description: 'Lifetime of the access tokens, in seconds',
+  },
+  {
+    name: 'JWT_REFRESH_TTL',
+    key: 'refreshTtl',
+    type: 'number',
+    default: '604800',
+    description: 'Lifetime of the refresh tokens, in seconds',
+  },
+];
+
+/**
+ * In-memory user store of the Auth feature, with scrypt password hashes.
+ */
+export function returnUserStoreFile(language: LANGUAGE) {
+  const ts = language === LANGUAGE.TYPESCRIPT;
+  return `import { randomBytes, randomUUID, scryptSync, timingSafeEqual } from "node:crypto";
+import { config } from "${ts ? '@/config' : '../config/index.js'}";
+${
+  ts
+    ? `
+export interface User {
+    id: string;
+    email: string;
+    passwordHash: string;
+}
+`
+    : ''
+}
+// sample store, replace it with a database
+const users = new Map${ts ? '<string, User>' : ''}();
+
+function hashPassword(password${ts ? ': string' : ''}) {
+    const salt = randomBytes(16).toString("hex");
+    return \`\${salt}:\${scryptSync(password, salt, 64).toString("hex")}\`;
+}
+
+/**
+ * Check a password against its hash, in constant time.
+ */
+export function verifyPassword(password${ts ? ': string' : ''}, passwordHash${ts ? ': string' : ''}) {
+    const [salt, hash] = passwordHash.split(":");
+    const expected = Buffer.from(hash, "hex");
+    return timingSafeEqual(expected, scryptSync(password, salt, expected.length));
+}
+
+export function createUser(email${ts ? ': string' : ''}, password${ts ? ': string' : ''}) {
+    const user = { id: randomUUID(), email: email.toLowerCase(), passwordHash: hashPassword(password) };
+    users.set(user.id, user);
+    return user;
+}
+
+export function findUserByEmail(email${ts ? ': string' : ''}) {
+    return [...users.values()].find((user) => user.email === email.toLowerCase());
+}
+
+export function findUserById(id${ts ? ': string' : ''}) {
+    return users.get(id);
+}
+
+// an account to try the login route with, never in production
+if (!config.isProduction) createUser("demo@example.com", "password123");
+`;
+}
+
+/**
+ * Signing and checking the access and refresh tokens of the Auth feature.
+ */
+export function returnTokensFile(language: LANGUAGE) {
+  const ts = language === LANGUAGE.TYPESCRIPT;
+  return `import jwt from "jsonwebtoken";
+import { authConfig } from "${ts ? '@/config/auth' : '../config/auth.js'}";
+${
+  ts
+    ? `
+/**
+ * Who a token was issued to, set on \`req.user\` by the \`authenticate\` middleware.
+ */
+export interface AuthUser {
+    id: string;
+    email: string;
+}
+`
+    : ''
+}
+function sign(user${ts ? ': AuthUser' : ''}, secret${ts ? ': string' : ''}, expiresIn${ts ? ': number' : ''}) {
+    return jwt.sign({ email: user.email }, secret, { subject: user.id, expiresIn, algorithm: "HS256" });
+}
+
+function verify(token${ts ? ': string' : ''}, secret${ts ? ': string' : ''})${ts ? ': AuthUser' : ''} {
+    const payload = jwt.verify(token, secret, { algorithms: ["HS256"] });
+    if (typeof payload === "string" || !payload.sub || typeof payload.email !== "string") {
+        throw new Error("Invalid token payload");
+    }
+    return { id: payload.sub, email: payload.email };
+}
+
+/**
+ * A short-lived access token, and a refresh token to get the next ones with.
+ */
+export function issueTokens(user${ts ? ': AuthUser' : ''}) {
+    return {
+        accessToken: sign(user, authConfig.accessSecret, authConfig.accessTtl),
+        refreshToken: sign(user, authConfig.refreshSecret, authConfig.refreshTtl),
+        expiresIn: authConfig.accessTtl,
+    };
+}
+
+/**
+ * The user of a valid access token; throws when it is invalid or expired.
+ */
+export function verifyAccessToken(token${ts ? ': string' : ''}) {
+    return verify(token, authConfig.accessSecret);
+}
+
+/**
+ * The user of a valid refresh token; throws when it is invalid or expired.
+ */
+export function verifyRefreshToken(token${ts ? ': string' : ''}) {
+    return verify(token, authConfig.refreshSecret);
+}
+`;
+}
+
+/**
+ * The `authenticate` middleware of the Auth feature.
+ */
+export function returnAuthMiddleware(language: LANGUAGE) {
+  const ts = language === LANGUAGE.TYPESCRIPT;
+  const from = (module: string) => (ts ? `@/${module}` : `../${module}.js`);
+  return `${ts ? 'import type { NextFunction, Request, Response } from "express";\n' : ''}import { HttpError } from "${from('utils/http-error')}";
+import { verifyAccessToken } from "${from('utils/tokens')}";
+
+/**
+ * Require a valid access token in the \`Authorization: Bearer <token>\` header
+ * and set \`req.user\` from it. Anything else is answered with a 401.
+ */
+export function authenticate(req${ts ? ': Request' : ''}, _res${ts ? ': Response' : ''}, next${ts ? ': NextFunction' : ''}) {
+    const [scheme, token] = req.headers.authorization?.split(" ") ?? [];
+    if (scheme?.toLowerCase() !== "bearer" || !token) {
+        return next(new HttpError(401, "Missing bearer token"));
+    }
+    try {
+        req.user = verifyAccessToken(token);
+    } catch {
+        return next(new HttpError(401, "Invalid or expired token"));
+    }
+    next();
+}
+`;
+}
+
+/**
+ * `req.user`, set by the `authenticate` middleware.
+ */
+export function returnAuthTypes() {
+  return `import type { AuthUser } from "../utils/tokens";
+
+declare global {
+    namespace Express {
+        interface Request {
+            /** The user of the access token, set by the \`authenticate\` middleware */
+            user?: AuthUser;
+        }
+    }
+}
+`;
+}
+
+/**
+ * Login, refresh and the sample protected route of the Auth feature.
+ */
+export function returnAuthControllers(language: LANGUAGE) {
+  const ts = language === LANGUAGE.TYPESCRIPT;
+  const from = (module: string) => (ts ? `@/${module}` : `../${module}.js`);
+  const params = ts ? 'request: Request, response: Response' : 'request, response';
+  return `${ts ? 'import type { Request, Response } from "express";\n' : ''}import { HttpError } from "${from('utils/http-error')}";
+import { issueTokens, verifyRefreshToken } from "${from('utils/tokens')}";
+import { findUserByEmail, findUserById, verifyPassword } from "${from('utils/users')}";
+
+/**
+ * Exchange an email and password for tokens.
+ */
+export async function LoginController(${params}) {
+    const { email, password } = request.body ?? {};
+    if (typeof email !== "string" || typeof password !== "string") {
+        throw new HttpError(400, "email and password are required");
+    }
+    const user = findUserByEmail(email);
+    if (!user || !verifyPassword(password, user.passwordHash)) {
+        throw new HttpError(401, "Invalid email or password");
+    }
+    return response.status(200).json(issueTokens(user));
+}
+
+/**
+ * Exchange a refresh token for new tokens.
+ */
+export async function RefreshController(${params}) {
+    const { refreshToken } = request.body ?? {};
+    if (typeof refreshToken !== "string") {
+        throw new HttpError(400, "refreshToken is required");
+    }
+    let user;
+    try {
+        user = findUserById(verifyRefreshToken(refreshToken).id);
+    } catch {
+        // invalid or expired, answered below
+    }
+    if (!user) {
+        throw new HttpError(401, "Invalid or expired refresh token");
+    }
+    return response.status(200).json(issueTokens(user));
+}
+
+/**
+ * The signed in user, behind the \`authenticate\` middleware.
+ */
+export async function MeController(${params}) {
+    return response.status(200).json({ user: request.user });
+}
+`;
+}
+
+export function returnAuthRoute(language: LANGUAGE) {
+  const ts = language === LANGUAGE.TYPESCRIPT;
+  const from = (module: string) => (ts ? `@/${module}` : `../${module}.js`);
+  return `import { Router } from "express";
+import { LoginController, MeController, RefreshController } from "${from('controllers/auth')}";
+import { authenticate } from "${from('middlewares/auth')}";
+import { asyncHandler } from "${from('utils/async-handler')}";
+
+export const authRoute = Router();
+
+authRoute.post('/auth/login', asyncHandler(LoginController));
+authRoute.post('/auth/refresh', asyncHandler(RefreshController));
+authRoute.get('/auth/me', authenticate, asyncHandler(MeController));
+`;
+}
+
+export function returnAuthTestFile(language: LANGUAGE, runner: TestRunner = FEATURES.JEST) {
+  return `${returnTestImports(runner)}import request from "supertest";
+import app from "${language === LANGUAGE.TYPESCRIPT ? '@/app' : '../src/app.js'}";
+
+function login(password = "password123") {
+  return request(app).post("/api/auth/login").send({ email: "demo@example.com", password });
+}
+
+describe("Auth", () => {
+  it("POST /api/auth/login returns tokens for valid credentials", async () => {
+    const res = await login();
+    expect(res.status).toBe(200);
+    expect(res.body).toEqual({
+      accessToken: expect.any(String),
+      refreshToken: expect.any(String),
+      expiresIn: expect.any(Number),
+    });
+  });
+
+  it("POST /api/auth/login rejects a wrong password with 401", async () => {
+    const res = await login("wrong-password");
+    expect(res.status).toBe(401);
+    expect(res.body.error.message).toBe("Invalid email or password");
+  });
+
+  it("GET /api/auth/me requires a token", async () => {
+    const res = await request(app).get("/api/auth/me");
+    expect(res.status).toBe(401);
+  });
+
+  it("GET /api/auth/me returns the user of the access token", async () => {
+    const { accessToken } = (await login()).body;
+    const res = await request(app).get("/api/auth/me").set("Authorization", \`Bearer \${accessToken}\`);
+    expect(res.status).toBe(200);
+    expect(res.body.user).toEqual({ id: expect.any(String), email: "demo@example.com" });
+  });
+
+  it("POST /api/auth/refresh issues new tokens", async () => {
+    const { refreshToken } = (await login()).body;
+    const res = await request(app).post("/api/auth/refresh").send({ refreshToken });
+    expect(res.status).toBe(200);
+    expect(res.body.accessToken).toEqual(expect.any(String));
+  });
+
+  it("POST /api/auth/refresh rejects an access token", async () => {
+    const { accessToken } = (await login()).body;
+    const res = await request(app).post("/api/auth/refresh").send({ refreshToken: accessToken });
+    expect(res.status).toBe(401);
+  });
+});
+`;
+}
+
+export const SqlDatabaseEnvVars: EnvVar[] = [
+  {
+    name: 'DATABASE_URL',
+    key: 'url',
+    type: 'string',
+    default: 'file:./dev.db',
+    description: 'SQLite database, a file: URL relative to the project root',
+    test: 'file:./test.db',
+  },
+];
+
+export const MongoDatabaseEnvVars: EnvVar[] = [
+  {
+    name: 'MONGODB_URI',
+    key: 'uri',
+    type: 'string',
+    default: '',
+    description:
+      'MongoDB connection string, e.g. mongodb://localhost:27017/app; ' +
+      'when empty, an in-memory server starts outside production',
+  },
+];
+
+/**
+ * `src/db/index`: the client of the chosen database, with the
+ * `connectDatabase()` / `disconnectDatabase()` pair `src/index` calls at
+ * startup and shutdown.
+ */
+export function returnDatabaseFile(language: LANGUAGE, database: DATABASE) {
+  const ts = language === LANGUAGE.TYPESCRIPT;
+  const from = (module: string) => (ts ? `@/${module}` : `../${module}.js`);
+  const imports = [
+    `import { databaseConfig } from "${from('config/database')}";`,
+    `import { addReadinessCheck } from "${from('utils/health')}";`,
+  ];
+  if (database === DATABASE.PRISMA) {
+    return `import { PrismaLibSql } from "@prisma/adapter-libsql";
+import { PrismaClient } from "@prisma/client";
+${imports.join('\n')}
+
+export const prisma = new PrismaClient({
+    adapter: new PrismaLibSql({ url: databaseConfig.url }),
+});
+
+/**
+ * Connect at startup, so a wrong DATABASE_URL stops the server, and make
+ * \`/health/ready\` ping the database.
+ */
+export async function connectDatabase() {
+    await prisma.$connect();
+    await prisma.$queryRaw\`SELECT 1\`;
+    addReadinessCheck("database", async () => {
+        await prisma.$queryRaw\`SELECT 1\`;
+    });
+}
+
+export async function disconnectDatabase() {
+    await prisma.$disconnect();
+}
+`;
+  }
+  if (database === DATABASE.DRIZZLE) {
+    return `import { createClient } from "@libsql/client";
+import { sql } from "drizzle-orm";
+import { drizzle } from "drizzle-orm/libsql";
+${imports.join('\n')}
+import * as schema from "./schema${ts ? '' : '.js'}";
+
+const client = createClient({ url: databaseConfig.url });
+
+export const db = drizzle(client, { schema });
+
+/**
+ * Connect at startup, so a wrong DATABASE_URL stops the server, and make
+ * \`/health/ready\` ping the database.
+ */
+export async function connectDatabase() {
+    await db.run(sql\`SELECT 1\`);
+    addReadinessCheck("database", async () => {
+        await db.run(sql\`SELECT 1\`);
+    });
+}
+
+export async function disconnectDatabase() {
+    client.close();
+}
+`;
+  }
+  return `import mongoose from "mongoose";
+${ts ? 'import type { MongoMemoryServer } from "mongodb-memory-server";\n' : ''}import { config } from "${ts ? '@/config' : '../config/index.js'}";
+${imports.join('\n')}
+
+let memoryServer${ts ? ': MongoMemoryServer | undefined' : ''};
+
+/**
+ * Connect to MONGODB_URI, or outside production to an in-memory server when it
+ * is empty, and make \`/health/ready\` check the connection.
+ */
+export async function connectDatabase() {
+    let uri = databaseConfig.uri;
+    if (!uri) {
+        if (config.isProduction) throw new Error("MONGODB_URI is required in production");
+        // a dev dependency, so it is only loaded here
+        const { MongoMemoryServer } = await import("mongodb-memory-server");
+        memoryServer = await MongoMemoryServer.create();
+        uri = memoryServer.getUri();
+    }
+    await mongoose.connect(uri);
+    addReadinessCheck("database", () => mongoose.connection.readyState === 1);
+}
+
+export async function disconnectDatabase() {
+    await mongoose.disconnect();
+    await memoryServer?.stop();
+}
+`;
+}
+
+/**
+ * The Prisma schema, with the SQLite datasource and the \`Sample\` model.
+ */
+export function returnPrismaSchema() {
+  return `// the database URL is set in prisma.config, the client gets it from src/config/database
+generator client {
+  provider = "prisma-client-js"
+}
+
+datasource db {
+  provider = "sqlite"
+}
+
+model Sample {
+  id        Int      @id @default(autoincrement())
+  name      String
+  createdAt DateTime @default(now())
+}
+`;
+}
+
+/**
+ * `prisma.config`, pointing the Prisma CLI at the schema, the migrations, the
+ * seed script and DATABASE_URL.
+ */
+export function returnPrismaConfig(language: LANGUAGE) {
+  const ts = language === LANGUAGE.TYPESCRIPT;
+  return `import { defineConfig } from "prisma/config";
+import { databaseConfig } from "./src/config/database${ts ? '' : '.js'}";
+
+export default defineConfig({
+    schema: "prisma/schema.prisma",
+    migrations: {
+        path: "prisma/migrations",
+        seed: "${ts ? 'tsx src/db/seed.ts' : 'node src/db/seed.js'}",
+    },
+    datasource: {
+        url: databaseConfig.url,
+    },
+});
+`;
+}
+
+/**
+ * The Drizzle schema, with the \`samples\` table.
+ */
+export function returnDrizzleSchema(language: LANGUAGE) {
+  const ts = language === LANGUAGE.TYPESCRIPT;
+  return `import { sql } from "drizzle-orm";
+import { integer, sqliteTable, text } from "drizzle-orm/sqlite-core";
+
+export const samples = sqliteTable("samples", {
+    id: integer("id").primaryKey({ autoIncrement: true }),
+    name: text("name").notNull(),
+    createdAt: integer("created_at", { mode: "timestamp" })
+        .notNull()
+        .default(sql\`(unixepoch())\`),
+});
+${ts ? '\nexport type Sample = typeof samples.$inferSelect;\n' : ''}`;
+}
+
+/**
+ * \`drizzle.config\`, pointing drizzle-kit at the schema, the migrations and DATABASE_URL.
+ */
+export function returnDrizzleConfig(language: LANGUAGE) {
+  const ts = language === LANGUAGE.TYPESCRIPT;
+  return `import { defineConfig } from "drizzle-kit";
+import { databaseConfig } from "./src/config/database${ts ? '' : '.js'}";
+
+export default defineConfig({
+    schema: "./src/db/schema${getFileExtension(language)}",
+    out: "./drizzle",
+    dialect: "sqlite",
+    dbCredentials: {
+        url: databaseConfig.url,
+    },
+});
+`;
+}
+
+/**
+ * The Mongoose \`Sample\` model.
+ */
+export function returnMongooseModel(language: LANGUAGE) {
+  const ts = language === LANGUAGE.TYPESCRIPT;
+  return `import mongoose from "mongoose";
+
+const sampleSchema = new mongoose.Schema(
+    {
+        name: { type: String, required: true },
+    },
+    { timestamps: true },
+);
+${ts ? '\nexport type Sample = mongoose.InferSchemaType<typeof sampleSchema>;\n' : ''}
+export const SampleModel = mongoose.model("Sample", sampleSchema);
+`;
+}
+
+/**
+ * `src/db/seed`, filling the sample model / table with a few rows.
+ */
+export function returnSeedFile(language: LANGUAGE, database: DATABASE) {
+  const ts = language === LANGUAGE.TYPESCRIPT;
+  const from = (module: string) => (ts ? `@/${module}` : `../${module}.js`);
+  const index = ts ? '@/db' : './index.js';
+  const rows = '[{ name: "First sample" }, { name: "Second sample" }]';
+  const body = {
+    [DATABASE.PRISMA]: `    await prisma.sample.deleteMany();
+    await prisma.sample.createMany({ data: ${rows} });
+    console.log(\`Seeded \${await prisma.sample.count()} samples\`);`,
+    [DATABASE.DRIZZLE]: `    await db.delete(samples);
+    await db.insert(samples).values(${rows});
+    console.log(\`Seeded \${(await db.select().from(samples)).length} samples\`);`,
+    [DATABASE.MONGOOSE]: `    await SampleModel.deleteMany();
+    await SampleModel.insertMany(${rows});
+    console.log(\`Seeded \${await SampleModel.countDocuments()} samples\`);`,
+  }[database as Exclude<DATABASE, DATABASE.NONE>];
+  const imports = {
+    [DATABASE.PRISMA]: [`import { connectDatabase, disconnectDatabase, prisma } from "${index}";`],
+    [DATABASE.DRIZZLE]: [
+      `import { connectDatabase, db, disconnectDatabase } from "${index}";`,
+      `import { samples } from "${ts ? '@/db/schema' : './schema.js'}";`,
+    ],
+    [DATABASE.MONGOOSE]: [
+      `import { databaseConfig } from "${from('config/database')}";`,
+      `import { connectDatabase, disconnectDatabase } from "${index}";`,
+      `import { SampleModel } from "${from('models/sample')}";`,
+    ],
+  }[database as Exclude<DATABASE, DATABASE.NONE>];
+  return `${imports.join('\n')}
+
+async function seed() {${
+    database === DATABASE.MONGOOSE
+      ? `
+    if (!databaseConfig.uri) {
+        throw new Error("Set MONGODB_URI to seed, the in-memory server starts empty every time");
+    }`
+      : ''
+  }
+    await connectDatabase();
+${body}
+}
+
+seed()
+    .catch((err) => {
+        console.error(err);
+        process.exitCode = 1;
+    })
+    .finally(disconnectDatabase);
+`;
+}
+
+export function returnHttpErrorFile(language: LANGUAGE) {
   if (language === LANGUAGE.TYPESCRIPT) {
-    return `import { type Request, type Response, Router } from "express";
-import Controllers from "@/controllers/index";
+    return `/**
+ * An error with the HTTP status to respond with.
+ * Throw it (or pass it to \`next\`) from any route and the error middleware answers with it.
+ */
+export class HttpError extends Error {
+    constructor(
+        public readonly status: number,
+        message: string,
+        public readonly details?: unknown,
+    ) {
+        super(message);
+        this.name = "HttpError";
+    }
+}
+`;
+  }
+  return `/**
+ * An error with the HTTP status to respond with.
+ * Throw it (or pass it to \`next\`) from any route and the error middleware answers with it.
+ */
+export class HttpError extends Error {
+    constructor(status, message, details) {
+        super(message);
+        this.name = "HttpError";
+        this.status = status;
+        this.details = details;
+    }
+}
+`;
+}
 
-export const ${name}Route = Router();
+export function returnAsyncHandlerFile(language: LANGUAGE) {
+  if (language === LANGUAGE.TYPESCRIPT) {
+    return `import type { NextFunction, Request, RequestHandler, Response } from "express";
 
-${name}Route.get('/${name}', (req: Request, res: Response) => void Controllers.${name}Controller(req, res));`;
+/**
+ * Wrap an async handler so a rejected promise reaches the error middleware.
+ */
+export function asyncHandler(
+    handler: (req: Request, res: Response, next: NextFunction) => Promise<unknown>,
+): RequestHandler {
+    return (req, res, next) => {
+        handler(req, res, next).catch(next);
+    };
+}
+`;
   }
-  return `import { Router } from "express";
-import Controllers from "./index.js";
+  return `/**
+ * Wrap an async handler so a rejected promise reaches the error middleware.
+ */
+export function asyncHandler(handler) {
+    return (req, res, next) => {
+        handler(req, res, next).catch(next);
+    };
+}
+`;
+}
+
+/**
+ * @param logging - Log server errors with the logger of the Logging feature
+ */
+export function returnErrorMiddleware(language: LANGUAGE, logging = false) {
+  const log = logging ? 'logger.error({ err }, "Request failed")' : 'console.error(err)';
+  if (language === LANGUAGE.TYPESCRIPT) {
+    return `import type { NextFunction, Request, Response } from "express";
+import { config } from "@/config";
+import { HttpError } from "@/utils/http-error";${logging ? '\nimport { logger } from "@/utils/logger";' : ''}
+
+/**
+ * Answer requests no route matched with a 404.
+ */
+export function notFound(req: Request, _res: Response, next: NextFunction) {
+    next(new HttpError(404, \`Cannot \${req.method} \${req.originalUrl}\`));
+}
+
+function statusOf(err: unknown) {
+    // errors from express and its body parsers carry their status too
+    const status = (err as { status?: unknown } | undefined)?.status;
+    return typeof status === "number" && status >= 400 && status < 600 ? status : 500;
+}
+
+/**
+ * Send every error as \`{ error: { message, details?, stack? } }\`.
+ * Server errors are logged, and their message and stack are hidden in production.
+ */
+// eslint-disable-next-line @typescript-eslint/no-unused-vars
+export function errorHandler(err: unknown, _req: Request, res: Response, _next: NextFunction) {
+    const status = statusOf(err);
+    const production = config.isProduction;
+    if (status >= 500) ${log};
+    const message =
+        status >= 500 && production
+            ? "Internal Server Error"
+            : err instanceof Error
+              ? err.message
+              : String(err);
+    res.status(status).json({
+        error: {
+            message,
+            ...(err instanceof HttpError && err.details !== undefined && { details: err.details }),
+            ...(!production && err instanceof Error && { stack: err.stack }),
+        },
+    });
+}
+`;
+  }
+  return `import { config } from "../config/index.js";
+import { HttpError } from "../utils/http-error.js";${logging ? '\nimport { logger } from "../utils/logger.js";' : ''}
+
+/**
+ * Answer requests no route matched with a 404.
+ */
+export function notFound(req, _res, next) {
+    next(new HttpError(404, \`Cannot \${req.method} \${req.originalUrl}\`));
+}
+
+function statusOf(err) {
+    // errors from express and its body parsers carry their status too
+    const status = err?.status;
+    return typeof status === "number" && status >= 400 && status < 600 ? status : 500;
+}
+
+/**
+ * Send every error as \`{ error: { message, details?, stack? } }\`.
+ * Server errors are logged, and their message and stack are hidden in production.
+ */
+// eslint-disable-next-line no-unused-vars
+export function errorHandler(err, _req, res, _next) {
+    const status = statusOf(err);
+    const production = config.isProduction;
+    if (status >= 500) ${log};
+    const message =
+        status >= 500 && production
+            ? "Internal Server Error"
+            : err instanceof Error
+              ? err.message
+              : String(err);
+    res.status(status).json({
+        error: {
+            message,
+            ...(err instanceof HttpError && err.details !== undefined && { details: err.details }),
+            ...(!production && err instanceof Error && { stack: err.stack }),
+        },
+    });
+}
+`;
+}
+
+/**
+ * Zod schema a resource validates its POST body with, e.g.
+ * `{ name: 'SampleSchema', module: 'schemas/index' }`.
+ */
+export interface ResourceSchema {
+  name: string;
+  module: string;
+}
+
+function capitalize(name: string) {
+  return name.charAt(0).toUpperCase() + name.slice(1);
+}
+
+/**
+ * @param schema - Also add a POST route validating its body against this schema
+ * @param wrapAsync - Wrap handlers in `asyncHandler`. Projects generated before it
+ * existed call their controllers with `void` instead.
+ */
+export function returnRouteData(
+  language: LANGUAGE,
+  name: string,
+  schema?: ResourceSchema,
+  wrapAsync = true,
+) {
+  const ts = language === LANGUAGE.TYPESCRIPT;
+  const from = (module: string) => (ts ? `@/${module}` : `../${module}.js`);
+  const params = ts && !wrapAsync ? '(req: Request, res: Response)' : '(req, res)';
+  const handler = (controller: string) =>
+    wrapAsync
+      ? `asyncHandler(${params} => Controllers.${controller}(req, res))`
+      : `${params} => void Controllers.${controller}(req, res)`;
+  const imports = [
+    ts && !wrapAsync
+      ? 'import { type Request, type Response, Router } from "express";'
+      : 'import { Router } from "express";',
+    `import Controllers from "${from('controllers/index')}";`,
+  ];
+  if (schema) imports.push(`import { validate } from "${from('middlewares/validate')}";`);
+  if (wrapAsync) imports.push(`import { asyncHandler } from "${from('utils/async-handler')}";`);
+  if (schema) imports.push(`import { ${schema.name} } from "${from(schema.module)}";`);
+  const routes = [`${name}Route.get('/${name}', ${handler(`${name}Controller`)});`];
+  if (schema) {
+    routes.push(
+      `${name}Route.post('/${name}', validate({ body: ${schema.name} }), ${handler(`create${capitalize(name)}Controller`)});`,
+    );
+  }
+  return `${imports.join('\n')}
 
 export const ${name}Route = Router();
 
-${name}Route.get('/${name}', (req, res) => void Controllers.${name}Controller(req, res));`;
+${routes.join('\n')}`;
 }
 
-export function returnControllerData(language: LANGUAGE, name: string) {
+export function returnControllerData(language: LANGUAGE, name: string, schema?: ResourceSchema) {
+  const typeName = schema && `I${schema.name.replace(/Schema$/, '')}`;
   if (language === LANGUAGE.TYPESCRIPT) {
     return `import type { Request, Response } from "express";
-import type { ControllerClass } from "@/controllers/index";
+import type { ControllerClass } from "@/controllers/index";${
+      schema ? `\nimport type { ${typeName} } from "@/${schema.module}";` : ''
+    }
 
-export async function ${name.charAt(0).toUpperCase() + name.slice(1)}Controller(this: ControllerClass, request:Request, response:Response) {
+export async function ${capitalize(name)}Controller(this: ControllerClass, request:Request, response:Response) {
     return response.status(200).json({ message: "This is a sample route" });
-}`;
+}${
+      schema
+        ? `
+
+export async function Create${capitalize(name)}Controller(this: ControllerClass, request: Request, response: Response) {
+    const ${name} = request.validated?.body as ${typeName};
+    return response.status(201).json({ message: "Created", data: ${name} });
+}`
+        : ''
+    }`;
   }
   return `
-export async function ${name.charAt(0).toUpperCase() + name.slice(1)}Controller(request, response) {
+export async function ${capitalize(name)}Controller(request, response) {
     return response.status(200).json({ message: "This is a sample route" });
-}`;
+}${
+    schema
+      ? `
+
+export async function Create${capitalize(name)}Controller(request, response) {
+    return response.status(201).json({ message: "Created", data: request.validated.body });
+}`
+      : ''
+  }`;
+}
+
+export function returnValidateMiddleware(language: LANGUAGE) {
+  if (language === LANGUAGE.TYPESCRIPT) {
+    return `import type { NextFunction, Request, Response } from "express";
+import type { ZodType } from "zod";
+import { HttpError } from "@/utils/http-error";
+
+export type RequestSchemas = {
+    body?: ZodType;
+    query?: ZodType;
+    params?: ZodType;
+};
+
+type Location = keyof RequestSchemas;
+
+export type ValidationIssue = {
+    location: Location;
+    path: string;
+    message: string;
+};
+
+/**
+ * Validate the request body, query and params against Zod schemas.
+ * Parsed values are available on \`req.validated\` (and replace \`req.body\`);
+ * invalid requests are passed on as a 400 \`HttpError\` listing every issue.
+ */
+export function validate(schemas: RequestSchemas) {
+    return (req: Request, _res: Response, next: NextFunction) => {
+        const validated: NonNullable<Request["validated"]> = {};
+        const details: ValidationIssue[] = [];
+        for (const location of Object.keys(schemas) as Location[]) {
+            const schema = schemas[location];
+            if (!schema) continue;
+            const result = schema.safeParse(req[location]);
+            if (result.success) {
+                validated[location] = result.data;
+            } else {
+                details.push(
+                    ...result.error.issues.map((issue) => ({
+                        location,
+                        path: issue.path.map(String).join("."),
+                        message: issue.message,
+                    })),
+                );
+            }
+        }
+        if (details.length) {
+            return next(new HttpError(400, "Validation failed", details));
+        }
+        req.validated = validated;
+        if ("body" in validated) req.body = validated.body;
+        next();
+    };
+}
+`;
+  }
+  return `import { HttpError } from "../utils/http-error.js";
+
+/**
+ * Validate the request body, query and params against Zod schemas.
+ * Parsed values are available on \`req.validated\` (and replace \`req.body\`);
+ * invalid requests are passed on as a 400 \`HttpError\` listing every issue.
+ */
+export function validate(schemas) {
+    return (req, _res, next) => {
+        const validated = {};
+        const details = [];
+        for (const location of Object.keys(schemas)) {
+            const schema = schemas[location];
+            if (!schema) continue;
+            const result = schema.safeParse(req[location]);
+            if (result.success) {
+                validated[location] = result.data;
+            } else {
+                details.push(
+                    ...result.error.issues.map((issue) => ({
+                        location,
+                        path: issue.path.map(String).join("."),
+                        message: issue.message,
+                    })),
+                );
+            }
+        }
+        if (details.length) {
+            return next(new HttpError(400, "Validation failed", details));
+        }
+        req.validated = validated;
+        if ("body" in validated) req.body = validated.body;
+        next();
+    };
+}
+`;
+}
+
+export function returnExpressTypes() {
+  return `export {};
+
+declare global {
+    namespace Express {
+        interface Request {
+            /** Values parsed by the \`validate\` middleware */
+            validated?: {
+                body?: unknown;
+                query?: unknown;
+                params?: unknown;
+            };
+        }
+    }
+}
+`;
 }
 
 export function returnSchemaFile(language: LANGUAGE, name: string) {
+  const typeName = `I${name.replace(/Schema$/, '')}`;
   return `import { z } from "zod";
 
 export const ${name} = z.object({
   name: z.string(),
   age: z.number().min(18),
 });
-${language === LANGUAGE.TYPESCRIPT && '\nexport type ISample = z.infer<typeof SampleSchema>\n'};`;
+${language === LANGUAGE.TYPESCRIPT ? `\nexport type ${typeName} = z.infer<typeof ${name}>;\n` : ''}`;
+}
+
+export function returnJestConfig(language: LANGUAGE) {
+  if (language === LANGUAGE.TYPESCRIPT) {
+    return `/** @type {import('jest').Config} */
+module.exports = {
+  preset: "ts-jest",
+  testEnvironment: "node",
+  roots: ["<rootDir>/tests"],
+  moduleNameMapper: {
+    "^@/(.*)$": "<rootDir>/src/$1",
+  },
+};
+`;
+  }
+  return `/** @type {import('jest').Config} */
+export default {
+  testEnvironment: "node",
+  roots: ["<rootDir>/tests"],
+  transform: {},
+  moduleNameMapper: {
+    "^@/(.*)$": "<rootDir>/src/$1",
+  },
+};
+`;
+}
+
+export function returnVitestConfig() {
+  return `import { fileURLToPath } from "node:url";
+import { defineConfig } from "vitest/config";
+
+export default defineConfig({
+  resolve: {
+    alias: {
+      "@": fileURLToPath(new URL("./src", import.meta.url)),
+    },
+  },
+  test: {
+    environment: "node",
+    include: ["tests/**/*.test.{ts,js}"],
+    coverage: {
+      provider: "v8",
+      include: ["src/**"],
+    },
+  },
+});
+`;
+}
+
+/**
+ * @param features - Selected features, adding tests for the Zod-validated
+ * `POST /api/sample` route and the security headers
+ */
+export function returnAppTestFile(
+  language: LANGUAGE,
+  runner: TestRunner = FEATURES.JEST,
+  features: string[] = [],
+) {
+  return `${returnTestImports(runner)}import request from "supertest";
+import app from "${language === LANGUAGE.TYPESCRIPT ? '@/app' : '../src/app.js'}";
+
+describe("API", () => {
+  it("GET /api/ping reports the server is running", async () => {
+    const res = await request(app).get("/api/ping");
+    expect(res.status).toBe(200);
+    expect(res.body).toEqual({ message: "Server running" });
+  });
+
+  it("GET /health/live reports the process is up", async () => {
+    const res = await request(app).get("/health/live");
+    expect(res.status).toBe(200);
+    expect(res.body).toEqual({ status: "ok" });
+  });
+
+  it("GET /health/ready reports the app is ready", async () => {
+    const res = await request(app).get("/health/ready");
+    expect(res.status).toBe(200);
+    expect(res.body).toEqual({ status: "ok", checks: {} });
+  });
+
+  it("GET /api/sample returns the sample message", async () => {
+    const res = await request(app).get("/api/sample");
+    expect(res.status).toBe(200);
+    expect(res.body).toEqual({ message: "This is a sample route" });
+  });
+
+  it("unknown routes return a JSON 404", async () => {
+    const res = await request(app).get("/api/missing");
+    expect(res.status).toBe(404);
+    expect(res.body.error.message).toBe("Cannot GET /api/missing");
+  });${
+    features.includes(FEATURES.SECURITY)
+      ? `
+
+  it("sets security headers", async () => {
+    const res = await request(app).get("/api/ping");
+    expect(res.headers["x-content-type-options"]).toBe("nosniff");
+    expect(res.headers["ratelimit-policy"]).toBeDefined();
+  });`
+      : ''
+  }${
+    features.includes(FEATURES.ZOD)
+      ? `
+
+  it("POST /api/sample creates a valid sample", async () => {
+    const res = await request(app).post("/api/sample").send({ name: "Ada", age: 36 });
+    expect(res.status).toBe(201);
+    expect(res.body).toEqual({ message: "Created", data: { name: "Ada", age: 36 } });
+  });
+
+  it("POST /api/sample rejects an invalid body with 400", async () => {
+    const res = await request(app).post("/api/sample").send({ name: "Ada", age: 12 });
+    expect(res.status).toBe(400);
+    expect(res.body.error.message).toBe("Validation failed");
+    expect(res.body.error.details).toEqual([
+      expect.objectContaining({ location: "body", path: "age" }),
+    ]);
+  });`
+      : ''
+  }
+});
+`;
+}
+
+export function returnControllerTestFile(language: LANGUAGE, runner: TestRunner = FEATURES.JEST) {
+  if (language === LANGUAGE.TYPESCRIPT) {
+    return `${returnTestImports(runner)}import type { Request, Response } from "express";
+import Controllers from "@/controllers/index";
+
+function mockResponse() {
+  return {
+    statusCode: 0,
+    body: undefined as unknown,
+    status(code: number) {
+      this.statusCode = code;
+      return this;
+    },
+    json(body: unknown) {
+      this.body = body;
+      return this;
+    },
+  };
+}
+
+describe("SampleController", () => {
+  it("responds with the sample message", async () => {
+    const res = mockResponse();
+    await Controllers.sampleController({} as Request, res as unknown as Response);
+    expect(res.statusCode).toBe(200);
+    expect(res.body).toEqual({ message: "This is a sample route" });
+  });
+});
+`;
+  }
+  return `${returnTestImports(runner)}import Controllers from "../../src/controllers/index.js";
+
+function mockResponse() {
+  return {
+    statusCode: 0,
+    body: undefined,
+    status(code) {
+      this.statusCode = code;
+      return this;
+    },
+    json(body) {
+      this.body = body;
+      return this;
+    },
+  };
+}
+
+describe("SampleController", () => {
+  it("responds with the sample message", async () => {
+    const res = mockResponse();
+    await Controllers.sampleController({}, res);
+    expect(res.statusCode).toBe(200);
+    expect(res.body).toEqual({ message: "This is a sample route" });
+  });
+});
+`;
+}
+
+// corepack would otherwise wait for a confirmation to download the package manager
+const CorepackSetup = ['ENV COREPACK_ENABLE_DOWNLOAD_PROMPT=0', 'RUN corepack enable'];
+
+/**
+ * How the Dockerfile installs packages with each package manager.
+ */
+const DockerInstall: Record<
+  PACKAGEMANAGER,
+  { setup?: string[]; install: string; production: string }
+> = {
+  [PACKAGEMANAGER.NPM]: { install: 'npm ci', production: 'npm ci --omit=dev' },
+  [PACKAGEMANAGER.YARN]: {
+    setup: CorepackSetup,
+    install: 'yarn install --frozen-lockfile',
+    production: 'yarn install --frozen-lockfile --production',
+  },
+  [PACKAGEMANAGER.PNPM]: {
+    setup: CorepackSetup,
+    install: 'pnpm install --frozen-lockfile',
+    production: 'pnpm install --frozen-lockfile --prod',
+  },
+  [PACKAGEMANAGER.BUN]: {
+    setup: ['RUN npm install -g bun'],
+    install: 'bun install --frozen-lockfile',
+    production: 'bun install --frozen-lockfile --production',
+  },
+};
+
+/**
+ * Where the SQLite databases live in the image, writable by the `node` user.
+ */
+const DockerDataDir = '/app/data';
+
+/**
+ * Multi-stage Dockerfile: dependencies are installed from the lockfile of the
+ * package manager, a TypeScript project is built in its own stage, and the
+ * runtime image only holds the production dependencies. With Prisma or
+ * Drizzle the migrations are deployed before the server starts.
+ */
+export function returnDockerfile(
+  language: LANGUAGE,
+  packageManager: PACKAGEMANAGER,
+  database: DATABASE = DATABASE.NONE,
+) {
+  const { setup, install, production } = DockerInstall[packageManager];
+  const ext = getFileExtension(language);
+  // what `prisma generate` needs before installing, as it runs on postinstall
+  const prismaFiles = [
+    'COPY prisma ./prisma',
+    `COPY prisma.config${ext} ./`,
+    'COPY src/config ./src/config',
+  ];
+  // the CLI deploying the migrations reads its config, which reads src/config
+  const migrationFiles: Partial<Record<DATABASE, string[]>> = {
+    [DATABASE.PRISMA]: ['COPY prisma ./prisma', `COPY prisma.config${ext} ./`],
+    [DATABASE.DRIZZLE]: [
+      '# run db:generate first, so there are migrations to deploy',
+      'COPY drizzle ./drizzle',
+      `COPY drizzle.config${ext} ./`,
+    ],
+  };
+  const migrations = migrationFiles[database];
+  // the glob keeps the build working for both lockfile names of bun
+  const manifests = [
+    `COPY package.json ${LockFiles[packageManager][0]}* ./`,
+    ...(database === DATABASE.PRISMA ? prismaFiles : []),
+  ].join('\n');
+  const base = `FROM node:22-alpine AS base
+WORKDIR /app${setup ? `\n${setup.join('\n')}` : ''}`;
+  const productionDeps = `FROM base AS production-deps
+${manifests}
+RUN ${production}`;
+  const main = language === LANGUAGE.JAVASCRIPT ? 'src/index.js' : 'dist/index.js';
+  const runtime = [
+    'FROM base AS runtime',
+    'ENV NODE_ENV=production',
+    'COPY --from=production-deps /app/node_modules ./node_modules',
+    ...(language === LANGUAGE.JAVASCRIPT ? [] : ['COPY --from=build /app/dist ./dist']),
+    'COPY package.json ./',
+    language === LANGUAGE.JAVASCRIPT
+      ? 'COPY src ./src'
+      : migrations && 'COPY src/config ./src/config',
+    ...(migrations ?? []),
+    migrations && `RUN mkdir -p ${DockerDataDir} && chown node:node ${DockerDataDir}`,
+    'USER node',
+    'EXPOSE 3000',
+    migrations
+      ? `CMD ["sh", "-c", "${packageManager} run db:deploy && exec node ${main}"]`
+      : `CMD ["node", "${main}"]`,
+  ]
+    .filter(Boolean)
+    .join('\n');
+  if (language === LANGUAGE.JAVASCRIPT) {
+    return `${base}
+
+${productionDeps}
+
+${runtime}
+`;
+  }
+  return `${base}
+
+FROM base AS build
+${manifests}
+RUN ${install}
+COPY tsconfig.json ./
+COPY src ./src
+# tsc && tsc-alias
+RUN ${packageManager} run build
+
+${productionDeps}
+
+${runtime}
+`;
+}
+
+export function returnDockerignore() {
+  return `node_modules
+dist
+coverage
+tests
+.git
+.env
+.env.*
+!.env.example
+Dockerfile
+docker-compose.yml
+npm-debug.log*
+`;
+}
+
+/**
+ * Compose service for the app. `PORT` and `.env` are read from the project
+ * folder; the healthcheck uses node as alpine images come without curl. A
+ * SQLite database is kept in a volume.
+ */
+export function returnDockerCompose(database: DATABASE = DATABASE.NONE) {
+  const sqlite = database === DATABASE.PRISMA || database === DATABASE.DRIZZLE;
+  const ping =
+    "fetch('http://localhost:' + (process.env.PORT || 3000) + '/health/ready')" +
+    '.then((res) => process.exit(res.ok ? 0 : 1), () => process.exit(1))';
+  return `services:
+  app:
+    build: .
+    ports:
+      - "\${PORT:-3000}:\${PORT:-3000}"
+    env_file:
+      - path: .env
+        required: false
+    environment:
+      NODE_ENV: production
+      PORT: \${PORT:-3000}${sqlite ? `\n      DATABASE_URL: file:./data/app.db\n    volumes:\n      - data:${DockerDataDir}` : ''}
+    healthcheck:
+      test: ["CMD", "node", "-e", "${ping}"]
+      interval: 30s
+      timeout: 5s
+      start_period: 10s
+      retries: 3
+    # longer than SHUTDOWN_TIMEOUT, so in-flight requests can finish
+    stop_grace_period: 15s
+    restart: unless-stopped
+${sqlite ? '\nvolumes:\n  data:\n' : ''}`;
 }
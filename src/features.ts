@@ -0,0 +1,517 @@
+import type { DistinctQuestion } from 'inquirer';
+import {
+  AppInjections,
+  AuthEnvVars,
+  EnvVar,
+  LoggingEnvVars,
+  MongoDatabaseEnvVars,
+  returnAppTestFile,
+  returnAuthControllers,
+  returnAuthMiddleware,
+  returnAuthRoute,
+  returnAuthTestFile,
+  returnAuthTypes,
+  returnConfigFile,
+  returnControllerTestFile,
+  returnDatabaseFile,
+  returnDockerCompose,
+  returnDockerfile,
+  returnDockerignore,
+  returnDrizzleConfig,
+  returnDrizzleSchema,
+  returnEnvHelperFile,
+  returnEslintConfig,
+  returnExpressTypes,
+  returnJestConfig,
+  returnLoggerFile,
+  returnMongooseModel,
+  returnPrettierConfig,
+  returnPrismaConfig,
+  returnPrismaSchema,
+  returnRequestLoggerMiddleware,
+  returnSchemaFile,
+  returnSecurityMiddleware,
+  returnSeedFile,
+  returnTokensFile,
+  returnUserStoreFile,
+  returnValidateMiddleware,
+  returnVitestConfig,
+  SecurityEnvVars,
+  SqlDatabaseEnvVars,
+} from './data.js';
+import { FileSystem } from './filesystem.js';
+import { FeaturesList, PromptAnswers, resolveDatabase, resolveTestRunner } from './prompts.js';
+import {
+  DATABASE,
+  DatabaseFeature,
+  detectPackageManager,
+  FEATURES,
+  getFileExtension,
+  LANGUAGE,
+  LockFiles,
+  PACKAGEMANAGER,
+  TESTRUNNER,
+} from './utils.js';
+
+/**
+ * What a plugin can base its setup on. `A` is the type of the builder's
+ * answers, including the extra questions of a custom builder.
+ */
+export interface FeatureContext<A extends PromptAnswers = PromptAnswers> {
+  language: LANGUAGE;
+  /** Every selected feature id, including the plugin's own */
+  features: string[];
+  /** Answers to the plugin's own questions */
+  answers: Record<string, unknown>;
+  /** Answers to the builder's questions */
+  projectAnswers: A;
+  /** The project being written, to adapt to files that already exist */
+  fileSystem: FileSystem;
+}
+
+/**
+ * A plugin value, either as is or computed from the project being generated.
+ */
+export type FeatureValue<T, A extends PromptAnswers = PromptAnswers> =
+  | T
+  | ((context: FeatureContext<A>) => T);
+
+/**
+ * A selectable feature. The built-in features are plugins too; add your own
+ * with `builder.use(plugin)`.
+ */
+export interface FeaturePlugin<A extends PromptAnswers = PromptAnswers> {
+  /** Value stored in the `features` answer, e.g. `zod` */
+  id: string;
+  /** Name shown in the features prompt */
+  label: string;
+  /** Left out of the features prompt, e.g. test runners which have their own */
+  hidden?: boolean;
+  /** Asked when the feature is selected; the answers are passed as `context.answers` */
+  questions?: DistinctQuestion[];
+  dependencies?: FeatureValue<string[], A>;
+  devDependencies?: FeatureValue<string[], A>;
+  /** package.json scripts, replacing the placeholder ones */
+  scripts?: FeatureValue<Record<string, string>, A>;
+  /** Files to write, by path relative to the project root */
+  files?: FeatureValue<Record<string, string>, A>;
+  /** Other files that mean the feature is already configured differently */
+  conflicts?: string[];
+  /** Environment variables added to `.env.example` and the env files */
+  env?: EnvVar[];
+  /** Code added to `src/app` */
+  app?: FeatureValue<AppInjections, A>;
+}
+
+/**
+ * A plugin resolved for a project: packages, package.json scripts, the files
+ * it writes and its additions to the app file.
+ */
+export interface FeatureSetup {
+  dependencies: string[];
+  devDependencies: string[];
+  scripts: Record<string, string>;
+  files: Record<string, string>;
+  conflicts: string[];
+  env: EnvVar[];
+  app: AppInjections;
+}
+
+/**
+ * Scripts written for features that were not selected. They can be replaced
+ * safely when the feature is added later.
+ */
+export const PlaceholderScripts = [
+  "echo 'no lint'",
+  "echo 'no tests'",
+  'echo "Error: no test specified" && exit 1',
+];
+
+function resolve<T, A extends PromptAnswers>(
+  value: FeatureValue<T, A> | undefined,
+  context: FeatureContext<A>,
+  fallback: T,
+): T {
+  if (value === undefined) return fallback;
+  return typeof value === 'function'
+    ? (value as (context: FeatureContext<A>) => T)(context)
+    : value;
+}
+
+/**
+ * Resolve every value of a plugin for a project.
+ */
+export function resolvePlugin<A extends PromptAnswers>(
+  plugin: FeaturePlugin<A>,
+  context: FeatureContext<A>,
+): FeatureSetup {
+  return {
+    dependencies: resolve(plugin.dependencies, context, []),
+    devDependencies: resolve(plugin.devDependencies, context, []),
+    scripts: resolve(plugin.scripts, context, {}),
+    files: resolve(plugin.files, context, {}),
+    conflicts: plugin.conflicts ?? [],
+    env: plugin.env ?? [],
+    app: resolve(plugin.app, context, {}),
+  };
+}
+
+/**
+ * Merge the app additions of several features, in order.
+ */
+export function mergeAppInjections(injections: AppInjections[]): AppInjections {
+  return injections.reduce<AppInjections>(
+    (merged, next) => ({
+      imports: [...(merged.imports ?? []), ...(next.imports ?? [])],
+      middleware: [...(merged.middleware ?? []), ...(next.middleware ?? [])],
+      bodyLimit: next.bodyLimit ?? merged.bodyLimit,
+      routes: [...(merged.routes ?? []), ...(next.routes ?? [])],
+      cors: merged.cors || next.cors,
+    }),
+    {},
+  );
+}
+
+function label(id: FEATURES) {
+  return FeaturesList.find((feature) => feature.value === id)?.name ?? id;
+}
+
+function jestScripts(jest: string) {
+  return { test: jest, 'test:watch': `${jest} --watch`, coverage: `${jest} --coverage` };
+}
+
+function sampleTests(
+  { language, features }: FeatureContext,
+  runner: FEATURES.JEST | FEATURES.VITEST,
+) {
+  const ext = getFileExtension(language);
+  return {
+    [`tests/app.test${ext}`]: returnAppTestFile(language, runner, features),
+    [`tests/controllers/sample.test${ext}`]: returnControllerTestFile(language, runner),
+  };
+}
+
+/**
+ * Name of the ESLint config: TypeScript projects are CommonJS, so their ESM
+ * config needs the `.mjs` extension.
+ */
+function eslintConfigFile(language: LANGUAGE) {
+  return language === LANGUAGE.TYPESCRIPT ? 'eslint.config.mjs' : 'eslint.config.js';
+}
+
+export const EslintPlugin: FeaturePlugin = {
+  id: FEATURES.ESLINT,
+  label: label(FEATURES.ESLINT),
+  devDependencies: ({ language }) =>
+    language === LANGUAGE.TYPESCRIPT
+      ? ['eslint', '@eslint/js', 'globals', 'prettier', 'typescript-eslint']
+      : ['eslint', '@eslint/js', 'globals', 'prettier'],
+  scripts: { lint: 'eslint .' },
+  files: ({ language, features }) => ({
+    [eslintConfigFile(language)]: returnEslintConfig(language, features.includes(FEATURES.JEST)),
+    '.prettierrc': returnPrettierConfig(),
+  }),
+  conflicts: [
+    '.eslintrc',
+    '.eslintrc.js',
+    '.eslintrc.cjs',
+    '.eslintrc.json',
+    'eslint.config.js',
+    'eslint.config.mjs',
+    'eslint.config.cjs',
+    'eslint.config.ts',
+  ],
+};
+
+export const ZodPlugin: FeaturePlugin = {
+  id: FEATURES.ZOD,
+  label: label(FEATURES.ZOD),
+  dependencies: ['zod'],
+  files: ({ language }) => {
+    const ext = getFileExtension(language);
+    return {
+      [`src/schemas/index${ext}`]: returnSchemaFile(language, 'SampleSchema').trim() + '\n',
+      [`src/middlewares/validate${ext}`]: returnValidateMiddleware(language),
+      ...(language === LANGUAGE.TYPESCRIPT && { 'src/types/express.d.ts': returnExpressTypes() }),
+    };
+  },
+};
+
+/**
+ * The `src/config/<name>` module of a feature, exporting `<name>Config`, plus
+ * the env helpers it reads through for projects from before the config module.
+ */
+function configFiles(
+  { language, features, fileSystem }: FeatureContext,
+  name: string,
+  variables: EnvVar[],
+): Record<string, string> {
+  const ext = getFileExtension(language);
+  const zod = features.includes(FEATURES.ZOD);
+  return {
+    ...(!fileSystem.exists(`src/config/env${ext}`) && {
+      [`src/config/env${ext}`]: returnEnvHelperFile(language, zod),
+    }),
+    [`src/config/${name}${ext}`]: returnConfigFile(language, zod, `${name}Config`, variables),
+  };
+}
+
+export const LoggingPlugin: FeaturePlugin = {
+  id: FEATURES.LOGGING,
+  label: label(FEATURES.LOGGING),
+  dependencies: ['pino', 'pino-http'],
+  devDependencies: ['pino-pretty'],
+  files: (context) => {
+    const ext = getFileExtension(context.language);
+    return {
+      ...configFiles(context, 'logging', LoggingEnvVars),
+      [`src/utils/logger${ext}`]: returnLoggerFile(context.language),
+      [`src/middlewares/request-logger${ext}`]: returnRequestLoggerMiddleware(context.language),
+    };
+  },
+  env: LoggingEnvVars,
+  app: ({ language }) => {
+    const js = language === LANGUAGE.TYPESCRIPT ? '' : '.js';
+    return {
+      imports: [`import { requestLogger } from "./middlewares/request-logger${js}";`],
+      middleware: ['app.use(requestLogger);'],
+    };
+  },
+};
+
+export const SecurityPlugin: FeaturePlugin = {
+  id: FEATURES.SECURITY,
+  label: label(FEATURES.SECURITY),
+  dependencies: ['helmet', 'express-rate-limit'],
+  files: (context) => ({
+    ...configFiles(context, 'security', SecurityEnvVars),
+    [`src/middlewares/security${getFileExtension(context.language)}`]: returnSecurityMiddleware(
+      context.language,
+    ),
+  }),
+  env: SecurityEnvVars,
+  app: ({ language }) => {
+    const js = language === LANGUAGE.TYPESCRIPT ? '' : '.js';
+    return {
+      imports: [
+        `import { securityConfig } from "./config/security${js}";`,
+        `import { security } from "./middlewares/security${js}";`,
+      ],
+      middleware: ['app.use(security());'],
+      bodyLimit: 'securityConfig.bodyLimit',
+      cors: true,
+    };
+  },
+};
+
+export const AuthPlugin: FeaturePlugin = {
+  id: FEATURES.AUTH,
+  label: label(FEATURES.AUTH),
+  dependencies: ['jsonwebtoken'],
+  devDependencies: ({ language }) =>
+    language === LANGUAGE.TYPESCRIPT ? ['@types/jsonwebtoken'] : [],
+  files: (context) => {
+    const { language, features } = context;
+    const ext = getFileExtension(language);
+    const runner = features.find(
+      (feature): feature is FEATURES.JEST | FEATURES.VITEST =>
+        feature === FEATURES.JEST || feature === FEATURES.VITEST,
+    );
+    return {
+      ...configFiles(context, 'auth', AuthEnvVars),
+      [`src/utils/users${ext}`]: returnUserStoreFile(language),
+      [`src/utils/tokens${ext}`]: returnTokensFile(language),
+      [`src/middlewares/auth${ext}`]: returnAuthMiddleware(language),
+      [`src/controllers/auth${ext}`]: returnAuthControllers(language),
+      [`src/routes/auth${ext}`]: returnAuthRoute(language),
+      ...(language === LANGUAGE.TYPESCRIPT && { 'src/types/auth.d.ts': returnAuthTypes() }),
+      ...(runner && { [`tests/auth.test${ext}`]: returnAuthTestFile(language, runner) }),
+    };
+  },
+  env: AuthEnvVars,
+  app: ({ language }) => ({
+    imports: [
+      `import { authRoute } from "./routes/auth${language === LANGUAGE.TYPESCRIPT ? '' : '.js'}";`,
+    ],
+    routes: ['app.use("/api", authRoute);'],
+  }),
+};
+
+export const DockerPlugin: FeaturePlugin = {
+  id: FEATURES.DOCKER,
+  label: label(FEATURES.DOCKER),
+  files: ({ language, features, projectAnswers }) => {
+    const databases = Object.keys(DatabaseFeature) as (keyof typeof DatabaseFeature)[];
+    const database = databases.find((d) => features.includes(DatabaseFeature[d]));
+    return {
+      Dockerfile: returnDockerfile(language, projectAnswers.packageManager, database),
+      '.dockerignore': returnDockerignore(),
+      'docker-compose.yml': returnDockerCompose(database),
+    };
+  },
+  conflicts: ['compose.yml', 'compose.yaml', 'docker-compose.yaml'],
+};
+
+export const JestPlugin: FeaturePlugin = {
+  id: FEATURES.JEST,
+  label: label(FEATURES.JEST),
+  hidden: true,
+  devDependencies: ({ language }) =>
+    language === LANGUAGE.TYPESCRIPT
+      ? ['jest', '@types/jest', 'ts-jest', 'supertest', '@types/supertest']
+      : ['jest', 'supertest'],
+  scripts: ({ language }) =>
+    jestScripts(
+      // Jest needs the VM modules flag to load the ESM output of JavaScript projects
+      language === LANGUAGE.TYPESCRIPT
+        ? 'jest'
+        : 'node --experimental-vm-modules node_modules/jest/bin/jest.js',
+    ),
+  files: (context) => ({
+    'jest.config.js': returnJestConfig(context.language),
+    ...sampleTests(context, FEATURES.JEST),
+  }),
+  conflicts: ['jest.config.ts', 'jest.config.mjs', 'jest.config.cjs', 'jest.config.json'],
+};
+
+export const VitestPlugin: FeaturePlugin = {
+  id: FEATURES.VITEST,
+  label: label(FEATURES.VITEST),
+  hidden: true,
+  devDependencies: ({ language }) =>
+    language === LANGUAGE.TYPESCRIPT
+      ? ['vitest', '@vitest/coverage-v8', 'supertest', '@types/supertest']
+      : ['vitest', '@vitest/coverage-v8', 'supertest'],
+  scripts: { test: 'vitest run', 'test:watch': 'vitest', coverage: 'vitest run --coverage' },
+  files: (context) => ({
+    [`vitest.config${getFileExtension(context.language)}`]: returnVitestConfig(),
+    ...sampleTests(context, FEATURES.VITEST),
+  }),
+  conflicts: ['vitest.config.mts', 'vitest.config.mjs', 'vite.config.ts', 'vite.config.js'],
+};
+
+/**
+ * Files every database plugin writes: the `src/config/database` module, the
+ * client in `src/db` and the seed script.
+ */
+function databaseFiles(context: FeatureContext, database: DATABASE, variables: EnvVar[]) {
+  const { language } = context;
+  const ext = getFileExtension(language);
+  return {
+    ...configFiles(context, 'database', variables),
+    [`src/db/index${ext}`]: returnDatabaseFile(language, database),
+    [`src/db/seed${ext}`]: returnSeedFile(language, database),
+  };
+}
+
+function seedScript(language: LANGUAGE) {
+  return language === LANGUAGE.TYPESCRIPT ? 'tsx src/db/seed.ts' : 'node src/db/seed.js';
+}
+
+export const PrismaPlugin: FeaturePlugin = {
+  id: FEATURES.PRISMA,
+  label: label(FEATURES.PRISMA),
+  hidden: true,
+  // the CLI generates the client on install and deploys the migrations in production
+  dependencies: ['@prisma/client', '@prisma/adapter-libsql', 'prisma'],
+  scripts: {
+    postinstall: 'prisma generate',
+    'db:generate': 'prisma generate',
+    'db:migrate': 'prisma migrate dev',
+    'db:deploy': 'prisma migrate deploy',
+    'db:seed': 'prisma db seed',
+  },
+  files: (context) => ({
+    ...databaseFiles(context, DATABASE.PRISMA, SqlDatabaseEnvVars),
+    'prisma/schema.prisma': returnPrismaSchema(),
+    [`prisma.config${getFileExtension(context.language)}`]: returnPrismaConfig(context.language),
+  }),
+  env: SqlDatabaseEnvVars,
+};
+
+export const DrizzlePlugin: FeaturePlugin = {
+  id: FEATURES.DRIZZLE,
+  label: label(FEATURES.DRIZZLE),
+  hidden: true,
+  // the CLI deploys the migrations in production, as in the Docker image
+  dependencies: ['drizzle-orm', '@libsql/client', 'drizzle-kit'],
+  scripts: ({ language }) => ({
+    'db:generate': 'drizzle-kit generate',
+    'db:migrate': 'drizzle-kit migrate',
+    'db:deploy': 'drizzle-kit migrate',
+    'db:seed': seedScript(language),
+  }),
+  files: (context) => {
+    const ext = getFileExtension(context.language);
+    return {
+      ...databaseFiles(context, DATABASE.DRIZZLE, SqlDatabaseEnvVars),
+      [`src/db/schema${ext}`]: returnDrizzleSchema(context.language),
+      [`drizzle.config${ext}`]: returnDrizzleConfig(context.language),
+    };
+  },
+  env: SqlDatabaseEnvVars,
+};
+
+export const MongoosePlugin: FeaturePlugin = {
+  id: FEATURES.MONGOOSE,
+  label: label(FEATURES.MONGOOSE),
+  hidden: true,
+  dependencies: ['mongoose'],
+  devDependencies: ['mongodb-memory-server'],
+  scripts: ({ language }) => ({ 'db:seed': seedScript(language) }),
+  files: (context) => ({
+    ...databaseFiles(context, DATABASE.MONGOOSE, MongoDatabaseEnvVars),
+    [`src/models/sample${getFileExtension(context.language)}`]: returnMongooseModel(
+      context.language,
+    ),
+  }),
+  env: MongoDatabaseEnvVars,
+};
+
+export const BuiltinPlugins: readonly FeaturePlugin[] = [
+  EslintPlugin,
+  ZodPlugin,
+  LoggingPlugin,
+  SecurityPlugin,
+  AuthPlugin,
+  DockerPlugin,
+  JestPlugin,
+  VitestPlugin,
+  PrismaPlugin,
+  DrizzlePlugin,
+  MongoosePlugin,
+];
+
+/**
+ * The built-in plugin of a feature.
+ */
+export function getBuiltinPlugin(feature: FEATURES): FeaturePlugin {
+  const plugin = BuiltinPlugins.find((p) => p.id === feature);
+  if (!plugin) throw new Error(`Unknown feature "${feature}".`);
+  return plugin;
+}
+
+/**
+ * Resolve a built-in feature for a project.
+ */
+export function getFeatureSetup(
+  feature: FEATURES,
+  context: Omit<FeatureContext, 'answers' | 'projectAnswers'>,
+): FeatureSetup {
+  const { language, features, fileSystem } = context;
+  // the package manager of the project, found from its lockfile
+  const packageManager =
+    Object.values(PACKAGEMANAGER).find((pm) =>
+      LockFiles[pm].some((file) => fileSystem.exists(file)),
+    ) ?? detectPackageManager();
+  const projectAnswers = resolveDatabase(
+    resolveTestRunner({
+      language,
+      features,
+      testRunner: TESTRUNNER.NONE,
+      database: DATABASE.NONE,
+      packageManager,
+    }),
+  );
+  return resolvePlugin(getBuiltinPlugin(feature), { answers: {}, projectAnswers, ...context });
+}
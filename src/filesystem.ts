@@ -0,0 +1,143 @@
+import fs from 'fs';
+import path from 'path';
+
+/**
+ * Minimal file-system surface used by the builder and file writers.
+ * All paths are resolved relative to `root` (the project directory).
+ */
+export interface FileSystem {
+  readonly root: string;
+  exists(filePath: string): boolean;
+  readFile(filePath: string): string;
+  writeFile(filePath: string, content: string): void;
+  mkdir(dirPath: string): void;
+  rm(filePath: string): void;
+}
+
+/**
+ * A file that would be written by a dry run. `previous` holds the content
+ * currently on disk when the file already exists.
+ */
+export interface GeneratedFile {
+  path: string;
+  content: string;
+  previous?: string;
+}
+
+/**
+ * Writes straight to disk, relative to the project directory.
+ */
+export class DiskFileSystem implements FileSystem {
+  constructor(public readonly root: string) {}
+
+  private resolve(filePath: string) {
+    return path.resolve(this.root, filePath);
+  }
+
+  exists(filePath: string) {
+    return fs.existsSync(this.resolve(filePath));
+  }
+
+  readFile(filePath: string) {
+    return fs.readFileSync(this.resolve(filePath), 'utf-8');
+  }
+
+  writeFile(filePath: string, content: string) {
+    const target = this.resolve(filePath);
+    fs.mkdirSync(path.dirname(target), { recursive: true });
+    fs.writeFileSync(target, content);
+  }
+
+  mkdir(dirPath: string) {
+    fs.mkdirSync(this.resolve(dirPath), { recursive: true });
+  }
+
+  rm(filePath: string) {
+    fs.rmSync(this.resolve(filePath), { recursive: true, force: true });
+  }
+}
+
+/**
+ * Keeps every write in memory. Reads fall through to disk for files that
+ * were not written, so existing content can be diffed against the result.
+ */
+export class MemoryFileSystem implements FileSystem {
+  private files = new Map<string, string>();
+  private dirs = new Set<string>();
+  private removed = new Set<string>();
+
+  constructor(public readonly root: string) {}
+
+  private key(filePath: string) {
+    return path.relative(this.root, path.resolve(this.root, filePath)).split(path.sep).join('/');
+  }
+
+  private isRemoved(key: string) {
+    return [...this.removed].some((r) => key === r || key.startsWith(`${r}/`));
+  }
+
+  private readDisk(key: string): string | undefined {
+    const target = path.resolve(this.root, key);
+    if (!fs.existsSync(target) || !fs.statSync(target).isFile()) return undefined;
+    return fs.readFileSync(target, 'utf-8');
+  }
+
+  exists(filePath: string) {
+    const key = this.key(filePath);
+    if (this.files.has(key) || this.dirs.has(key)) return true;
+    if (this.isRemoved(key)) return false;
+    return fs.existsSync(path.resolve(this.root, key));
+  }
+
+  readFile(filePath: string) {
+    const key = this.key(filePath);
+    const content = this.files.get(key) ?? (this.isRemoved(key) ? undefined : this.readDisk(key));
+    if (content === undefined) {
+      throw new Error(`ENOENT: no such file, open '${key}'`);
+    }
+    return content;
+  }
+
+  writeFile(filePath: string, content: string) {
+    const key = this.key(filePath);
+    this.removed.delete(key);
+    this.mkdir(path.posix.dirname(key));
+    this.files.set(key, content);
+  }
+
+  mkdir(dirPath: string) {
+    let key = this.key(dirPath);
+    while (key && key !== '.') {
+      this.removed.delete(key);
+      this.dirs.add(key);
+      key = path.posix.dirname(key);
+    }
+  }
+
+  rm(filePath: string) {
+    const key = this.key(filePath);
+    const inside = (p: string) => p === key || p.startsWith(`${key}/`);
+    [...this.files.keys()].filter(inside).forEach((p) => this.files.delete(p));
+    [...this.dirs].filter(inside).forEach((p) => this.dirs.delete(p));
+    this.removed.add(key);
+  }
+
+  /**
+   * Directories created in memory, sorted.
+   */
+  directories() {
+    return [...this.dirs].sort();
+  }
+
+  /**
+   * Files written in memory, sorted by path, with their on-disk content
+   * when they would overwrite an existing file.
+   */
+  generatedFiles(): GeneratedFile[] {
+    return [...this.files.keys()].sort().map((key) => {
+      const previous = this.readDisk(key);
+      const content = this.files.get(key) as string;
+      return previous === undefined ? { path: key, content } : { path: key, content, previous };
+    });
+  }
+}
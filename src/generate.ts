@@ -0,0 +1,204 @@
+import { ResourceSchema, returnControllerData, returnRouteData, returnSchemaFile } from './data.js';
+import { FileSystem } from './filesystem.js';
+import { getFileExtension, LANGUAGE } from './utils.js';
+
+/**
+ * Result of generating a resource: paths relative to the project root.
+ */
+export interface GeneratedResource {
+  name: string;
+  created: string[];
+  updated: string[];
+}
+
+function capitalize(name: string) {
+  return name.charAt(0).toUpperCase() + name.slice(1);
+}
+
+/**
+ * Normalise a resource name to the camelCase identifier used for file names,
+ * exports and the route path, e.g. `user-profile` -> `userProfile`.
+ */
+export function toResourceName(input: string): string {
+  if (!/^[a-zA-Z][a-zA-Z0-9_-]*$/.test(input)) {
+    throw new Error(
+      `Invalid resource name "${input}". Use letters, digits, "-" or "_", starting with a letter.`,
+    );
+  }
+  const name = input.replace(/[-_]+([a-zA-Z0-9])/g, (_, c: string) => c.toUpperCase());
+  return name.charAt(0).toLowerCase() + name.slice(1);
+}
+
+/**
+ * Insert `line` after the last line matching `pattern`.
+ * @returns the new content, or undefined when nothing matched
+ */
+function insertAfterLast(content: string, pattern: RegExp, line: string): string | undefined {
+  const lines = content.split('\n');
+  let index = -1;
+  lines.forEach((l, i) => {
+    if (pattern.test(l)) index = i;
+  });
+  if (index === -1) return undefined;
+  lines.splice(index + 1, 0, line);
+  return lines.join('\n');
+}
+
+/**
+ * Adds resources (route, controller and optional Zod schema) to a project
+ * generated by create-express-app, registering them in the routes index and
+ * the `ControllerClass`. Projects with the `validate` middleware also get a
+ * validated POST route.
+ */
+export class ResourceGenerator {
+  constructor(private fileSystem: FileSystem) {}
+
+  /**
+   * Detect the project language from its routes index file.
+   */
+  detectLanguage(): LANGUAGE {
+    for (const language of [LANGUAGE.TYPESCRIPT, LANGUAGE.JAVASCRIPT]) {
+      if (this.fileSystem.exists(`src/routes/index${getFileExtension(language)}`)) {
+        return language;
+      }
+    }
+    throw new Error(
+      `No src/routes/index.ts or src/routes/index.js in ${this.fileSystem.root}. ` +
+        'Run this inside a project created with create-express-app.',
+    );
+  }
+
+  /**
+   * Whether package.json lists the package as a dependency or devDependency.
+   */
+  hasDependency(pkg: string) {
+    if (!this.fileSystem.exists('package.json')) return false;
+    const { dependencies = {}, devDependencies = {} } = JSON.parse(
+      this.fileSystem.readFile('package.json'),
+    );
+    return pkg in dependencies || pkg in devDependencies;
+  }
+
+  /**
+   * Write the resource files and register them. Every change is computed
+   * before anything is written, so a failed patch leaves the project as is.
+   */
+  generateResource(input: string): GeneratedResource {
+    const name = toResourceName(input);
+    if (name === 'index') {
+      throw new Error('"index" is reserved, pick another resource name.');
+    }
+    const language = this.detectLanguage();
+    const ext = getFileExtension(language);
+    const routePath = `src/routes/${name}${ext}`;
+    const controllerPath = `src/controllers/${name}${ext}`;
+    const routesIndexPath = `src/routes/index${ext}`;
+    const controllersIndexPath = `src/controllers/index${ext}`;
+
+    for (const file of [routePath, controllerPath]) {
+      if (this.fileSystem.exists(file)) {
+        throw new Error(`Resource "${name}" already exists (${file}).`);
+      }
+    }
+    if (!this.fileSystem.exists(controllersIndexPath)) {
+      throw new Error(`Missing ${controllersIndexPath}, cannot register the controller.`);
+    }
+
+    const files = new Map<string, string>();
+    let schema: ResourceSchema | undefined;
+    if (this.hasDependency('zod')) {
+      const schemaName = `${capitalize(name)}Schema`;
+      const schemaPath = `src/schemas/${name}${ext}`;
+      if (!this.fileSystem.exists(schemaPath)) {
+        files.set(schemaPath, returnSchemaFile(language, schemaName).trim() + '\n');
+        if (this.fileSystem.exists(`src/middlewares/validate${ext}`)) {
+          schema = { name: schemaName, module: `schemas/${name}` };
+        }
+      }
+    }
+    const wrapAsync = this.fileSystem.exists(`src/utils/async-handler${ext}`);
+    files.set(routePath, returnRouteData(language, name, schema, wrapAsync));
+    files.set(controllerPath, returnControllerData(language, name, schema));
+    files.set(routesIndexPath, this.patchRoutesIndex(language, name, routesIndexPath));
+    files.set(
+      controllersIndexPath,
+      this.patchControllersIndex(language, name, controllersIndexPath, !!schema),
+    );
+
+    const created: string[] = [];
+    const updated: string[] = [];
+    for (const [file, content] of files) {
+      (this.fileSystem.exists(file) ? updated : created).push(file);
+      this.fileSystem.writeFile(file, content);
+    }
+    return { name, created, updated };
+  }
+
+  private patchRoutesIndex(language: LANGUAGE, name: string, file: string) {
+    const content = this.fileSystem.readFile(file);
+    const routeName = `${name}Route`;
+    if (new RegExp(`\\b${routeName}\\b`).test(content)) {
+      throw new Error(`${file} already registers ${routeName}.`);
+    }
+    const importPath = `./${name}${language === LANGUAGE.TYPESCRIPT ? '' : '.js'}`;
+    const withImport = insertAfterLast(
+      content,
+      /^import\s/,
+      `import { ${routeName} } from '${importPath}';`,
+    );
+    const patched =
+      withImport &&
+      (insertAfterLast(withImport, /^router\.use\(/, `router.use(${routeName});`) ??
+        insertAfterLast(withImport, /^const router = Router\(\);/, `\nrouter.use(${routeName});`));
+    if (!patched) {
+      throw new Error(
+        `Could not register the route in ${file}. Add it manually:\n` +
+          `  import { ${routeName} } from '${importPath}';\n  router.use(${routeName});`,
+      );
+    }
+    return patched;
+  }
+
+  private patchControllersIndex(
+    language: LANGUAGE,
+    name: string,
+    file: string,
+    withCreate: boolean,
+  ) {
+    const content = this.fileSystem.readFile(file);
+    const controllers = [`${capitalize(name)}Controller`];
+    const properties = [`    ${name}Controller = ${controllers[0]};`];
+    if (withCreate) {
+      controllers.push(`Create${capitalize(name)}Controller`);
+      properties.push(`    create${capitalize(name)}Controller = ${controllers[1]};`);
+    }
+    const property = properties.join('\n');
+    const importPath = `./${name}${language === LANGUAGE.TYPESCRIPT ? '' : '.js'}`;
+    const importLine = `import { ${controllers.join(', ')} } from "${importPath}";`;
+    const fail = () =>
+      new Error(
+        `Could not register the controller in ${file}. Add it manually:\n` +
+          `  ${importLine}\n${properties.map((p) => `  ${p.trim()}`).join('\n')} (inside ControllerClass)`,
+      );
+
+    const classStart = content.indexOf('export class ControllerClass');
+    const bodyStart = classStart === -1 ? -1 : content.indexOf('{', classStart);
+    if (bodyStart === -1) throw fail();
+    // walk to the brace that closes the class body
+    let depth = 0;
+    let bodyEnd = -1;
+    for (let i = bodyStart; i < content.length; i++) {
+      if (content[i] === '{') depth++;
+      if (content[i] === '}' && --depth === 0) {
+        bodyEnd = i;
+        break;
+      }
+    }
+    if (bodyEnd === -1) throw fail();
+    const beforeClose = content.slice(0, bodyEnd).replace(/\s*$/, '');
+    const withProperty = `${beforeClose}\n${property}\n${content.slice(bodyEnd)}`;
+    const patched = insertAfterLast(withProperty, /^import\s/, importLine);
+    // a controllers file without any imports gets it on top
+    return patched ?? `${importLine}\n${withProperty}`;
+  }
+}
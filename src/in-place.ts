@@ -0,0 +1,123 @@
+import path from 'path';
+import { FileSystem } from './filesystem.js';
+
+/**
+ * What to do with a generated file that would replace an existing one:
+ * write over it, keep the existing file, or write next to it as `<file>.new`.
+ */
+export type ConflictAction = 'overwrite' | 'skip' | 'new';
+
+/**
+ * A generated file held back because a different file is already there.
+ */
+export interface Conflict {
+  path: string;
+  /** Content on disk */
+  current: string;
+  /** Content the scaffold generated */
+  content: string;
+}
+
+/**
+ * Combines an existing file with the generated one.
+ */
+export type FileMerge = (current: string, generated: string) => string;
+
+/**
+ * Keep the existing entries and append the generated ones it lacks.
+ */
+export function mergeGitignore(current: string, generated: string): string {
+  const existing = new Set(current.split('\n').map((line) => line.trim()));
+  const missing = generated.split('\n').filter((line) => line.trim() && !existing.has(line.trim()));
+  if (!missing.length) return current;
+  return `${current.replace(/\n*$/, '\n')}\n# create-express-app\n${missing.join('\n')}\n`;
+}
+
+function normalize(filePath: string) {
+  return path.posix.normalize(filePath.split(path.sep).join('/'));
+}
+
+/**
+ * Writes into a directory that already holds files, never replacing one of
+ * them on the spot: files with a merge are merged, the others are held back
+ * as conflicts until `resolve()` is called for them. Files the scaffold wrote
+ * itself are written as usual.
+ */
+export class InPlaceFileSystem implements FileSystem {
+  private written = new Set<string>();
+  private pending = new Map<string, Conflict>();
+
+  /**
+   * @param merges - Merge functions by path
+   * @param isOwn - Whether an existing file was written by this scaffold, e.g. before it was resumed
+   */
+  constructor(
+    public readonly fileSystem: FileSystem,
+    private merges: Record<string, FileMerge> = {},
+    private isOwn: (filePath: string) => boolean = () => false,
+  ) {}
+
+  get root() {
+    return this.fileSystem.root;
+  }
+
+  exists(filePath: string) {
+    return this.pending.has(normalize(filePath)) || this.fileSystem.exists(filePath);
+  }
+
+  /**
+   * Held back files read as generated, so later steps see the project they built.
+   */
+  readFile(filePath: string) {
+    return this.pending.get(normalize(filePath))?.content ?? this.fileSystem.readFile(filePath);
+  }
+
+  writeFile(filePath: string, content: string) {
+    const key = normalize(filePath);
+    if (this.written.has(key) || this.isOwn(key) || !this.fileSystem.exists(key)) {
+      this.written.add(key);
+      this.fileSystem.writeFile(key, content);
+      return;
+    }
+    const current = this.fileSystem.readFile(key);
+    const merge = this.merges[key];
+    if (merge) {
+      this.fileSystem.writeFile(key, merge(current, content));
+    } else if (current === content) {
+      this.pending.delete(key);
+    } else {
+      this.pending.set(key, { path: key, current, content });
+    }
+  }
+
+  mkdir(dirPath: string) {
+    this.fileSystem.mkdir(dirPath);
+  }
+
+  rm(filePath: string) {
+    const key = normalize(filePath);
+    [...this.pending.keys()]
+      .filter((p) => p === key || p.startsWith(`${key}/`))
+      .forEach((p) => this.pending.delete(p));
+    this.fileSystem.rm(filePath);
+  }
+
+  /**
+   * Generated files held back, in the order they were written.
+   */
+  conflicts(): Conflict[] {
+    return [...this.pending.values()];
+  }
+
+  /**
+   * Settle a conflict.
+   * @returns the path written, if any
+   */
+  resolve(conflict: Conflict, action: ConflictAction): string | undefined {
+    this.pending.delete(conflict.path);
+    if (action === 'skip') return undefined;
+    const target = action === 'new' ? `${conflict.path}.new` : conflict.path;
+    this.fileSystem.writeFile(target, conflict.content);
+    return target;
+  }
+}
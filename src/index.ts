@@ -3,3 +3,14 @@ export * from './builder/index.js';
 export * from './utils.js';
 export * from './prompts.js';
 export * from './write.js';
+export * from './filesystem.js';
+export * from './journal.js';
+export * from './in-place.js';
+export * from './preset.js';
+export * from './config.js';
+export * from './preview.js';
+export * from './registry.js';
+export * from './versions.js';
+export * from './generate.js';
+export * from './features.js';
+export * from './add.js';
@@ -0,0 +1,283 @@
+import fs from 'fs';
+import path from 'path';
+import { FileSystem } from './filesystem.js';
+
+/**
+ * Name of the journal kept in the project directory while it is scaffolded.
+ */
+export const JournalFile = '.create-express-app.journal.json';
+
+/**
+ * A change made to the project. Directories were created by the scaffold;
+ * files hold their content from before it, `null` when they are new.
+ */
+export type JournalEntry =
+  | { type: 'dir'; path: string }
+  | { type: 'file'; path: string; previous: string | null };
+
+/**
+ * What the journal file holds, enough to undo the scaffold or run it again.
+ */
+export interface JournalData {
+  version: 1;
+  projectName: string;
+  /** The answers the scaffold runs with, once collected */
+  answers?: Record<string, unknown>;
+  /** Answers to the questions of the selected plugins, by plugin id */
+  pluginAnswers?: Record<string, Record<string, unknown>>;
+  /** Build steps that ran to completion */
+  completedSteps: string[];
+  entries: JournalEntry[];
+}
+
+/**
+ * Records every change a scaffold makes to its directory, on disk and before
+ * the change happens, so an interrupted scaffold can be undone even after a
+ * hard kill.
+ */
+export class Journal {
+  private closed = false;
+
+  private constructor(
+    public readonly root: string,
+    private data: JournalData,
+  ) {}
+
+  /**
+   * Start a journal in `root`, which must exist.
+   * @param createdRoot - Whether the scaffold created `root`, so undoing removes it
+   */
+  static create(root: string, projectName: string, createdRoot: boolean) {
+    const journal = new Journal(root, {
+      version: 1,
+      projectName,
+      completedSteps: [],
+      entries: createdRoot ? [{ type: 'dir', path: '.' }] : [],
+    });
+    journal.save();
+    return journal;
+  }
+
+  /**
+   * The journal left in `root` by an interrupted scaffold, if any.
+   */
+  static read(root: string): Journal | undefined {
+    const file = path.join(root, JournalFile);
+    if (!fs.existsSync(file)) return undefined;
+    const data = JSON.parse(fs.readFileSync(file, 'utf-8')) as JournalData;
+    if (data.version !== 1 || !Array.isArray(data.entries)) {
+      throw new Error(`Unsupported journal format in ${file}.`);
+    }
+    return new Journal(root, data);
+  }
+
+  static exists(root: string) {
+    return fs.existsSync(path.join(root, JournalFile));
+  }
+
+  get projectName() {
+    return this.data.projectName;
+  }
+
+  get answers() {
+    return this.data.answers;
+  }
+
+  get pluginAnswers() {
+    return this.data.pluginAnswers ?? {};
+  }
+
+  get entries(): readonly JournalEntry[] {
+    return this.data.entries;
+  }
+
+  /**
+   * Whether the scaffold created the project directory itself.
+   */
+  get createdRoot() {
+    return this.data.entries.some((entry) => entry.type === 'dir' && entry.path === '.');
+  }
+
+  /**
+   * Whether a path was created by the scaffold, as opposed to already being there.
+   */
+  created(filePath: string) {
+    const key = this.key(filePath);
+    return this.data.entries.some((entry) =>
+      entry.type === 'dir'
+        ? entry.path === '.' || entry.path === key || key.startsWith(`${entry.path}/`)
+        : entry.path === key && entry.previous === null,
+    );
+  }
+
+  isCompleted(step: string) {
+    return this.data.completedSteps.includes(step);
+  }
+
+  setAnswers(answers: object, pluginAnswers: Record<string, Record<string, unknown>>) {
+    this.data.answers = { ...answers };
+    this.data.pluginAnswers = pluginAnswers;
+    this.save();
+  }
+
+  completeStep(step: string) {
+    if (this.isCompleted(step)) return;
+    this.data.completedSteps.push(step);
+    this.save();
+  }
+
+  private resolve(filePath: string) {
+    return path.resolve(this.root, filePath);
+  }
+
+  private key(filePath: string) {
+    return path.relative(this.root, this.resolve(filePath)).split(path.sep).join('/') || '.';
+  }
+
+  /**
+   * Whether undoing already takes care of a path: it is recorded, or inside a
+   * directory the scaffold created.
+   */
+  private covers(key: string) {
+    return this.data.entries.some(
+      (entry) =>
+        entry.path === key ||
+        (entry.type === 'dir' && (entry.path === '.' || key.startsWith(`${entry.path}/`))),
+    );
+  }
+
+  /**
+   * Record a file about to be written or removed, with its current content.
+   * A directory is recorded file by file.
+   */
+  recordFile(filePath: string) {
+    const key = this.key(filePath);
+    if (key === JournalFile || this.covers(key)) return;
+    const target = this.resolve(key);
+    if (fs.existsSync(target) && fs.statSync(target).isDirectory()) {
+      fs.readdirSync(target).forEach((name) => this.recordFile(`${key}/${name}`));
+      return;
+    }
+    const previous = fs.existsSync(target) ? fs.readFileSync(target, 'utf-8') : null;
+    this.data.entries.push({ type: 'file', path: key, previous });
+    this.save();
+  }
+
+  /**
+   * Record a directory about to be created, from its topmost missing parent.
+   */
+  recordDir(dirPath: string) {
+    let key = this.key(dirPath);
+    let topmost: string | undefined;
+    while (key !== '.' && !fs.existsSync(this.resolve(key))) {
+      topmost = key;
+      key = path.posix.dirname(key);
+    }
+    if (!topmost || this.covers(topmost)) return;
+    this.data.entries.push({ type: 'dir', path: topmost });
+    this.save();
+  }
+
+  /**
+   * Undo every recorded change, newest first, then drop the journal.
+   * @returns the paths restored or removed
+   */
+  rollback(): string[] {
+    const undone: string[] = [];
+    for (const entry of [...this.data.entries].reverse()) {
+      const target = this.resolve(entry.path);
+      if (entry.type === 'file' && entry.previous !== null) {
+        fs.mkdirSync(path.dirname(target), { recursive: true });
+        fs.writeFileSync(target, entry.previous);
+        undone.push(entry.path);
+      } else if (fs.existsSync(target)) {
+        fs.rmSync(target, { recursive: true, force: true });
+        undone.push(entry.path);
+      }
+    }
+    this.commit();
+    return undone;
+  }
+
+  /**
+   * Undo the changes to some paths only, e.g. what a failed install added, and
+   * keep the rest. Paths inside a directory the scaffold created are removed.
+   * @returns the paths restored or removed
+   */
+  undo(paths: string[]): string[] {
+    const keys = paths.map((filePath) => this.key(filePath));
+    const undone: string[] = [];
+    for (const key of keys) {
+      const target = this.resolve(key);
+      const entry = this.data.entries.find((e) => e.path === key);
+      if (entry?.type === 'file' && entry.previous !== null) {
+        fs.writeFileSync(target, entry.previous);
+        undone.push(key);
+      } else if ((entry || this.created(key)) && fs.existsSync(target)) {
+        fs.rmSync(target, { recursive: true, force: true });
+        undone.push(key);
+      }
+    }
+    this.data.entries = this.data.entries.filter((entry) => !keys.includes(entry.path));
+    this.save();
+    return undone;
+  }
+
+  /**
+   * Keep every change: drop the journal once the scaffold is complete.
+   */
+  commit() {
+    this.data.entries = [];
+    this.closed = true;
+    fs.rmSync(this.resolve(JournalFile), { force: true });
+  }
+
+  /**
+   * Written to a temporary file first, so a kill never leaves half a journal.
+   */
+  private save() {
+    if (this.closed) return;
+    const file = this.resolve(JournalFile);
+    fs.writeFileSync(`${file}.tmp`, JSON.stringify(this.data, null, 2));
+    fs.renameSync(`${file}.tmp`, file);
+  }
+}
+
+/**
+ * Records every change in a journal before handing it to the wrapped file
+ * system.
+ */
+export class JournaledFileSystem implements FileSystem {
+  constructor(
+    private fileSystem: FileSystem,
+    private journal: Journal,
+  ) {}
+
+  get root() {
+    return this.fileSystem.root;
+  }
+
+  exists(filePath: string) {
+    return this.fileSystem.exists(filePath);
+  }
+
+  readFile(filePath: string) {
+    return this.fileSystem.readFile(filePath);
+  }
+
+  writeFile(filePath: string, content: string) {
+    this.journal.recordDir(path.dirname(filePath));
+    this.journal.recordFile(filePath);
+    this.fileSystem.writeFile(filePath, content);
+  }
+
+  mkdir(dirPath: string) {
+    this.journal.recordDir(dirPath);
+    this.fileSystem.mkdir(dirPath);
+  }
+
+  rm(filePath: string) {
+    this.journal.recordFile(filePath);
+    this.fileSystem.rm(filePath);
+  }
+}
@@ -0,0 +1,185 @@
+import fs from 'fs';
+import path from 'path';
+import { pathToFileURL } from 'url';
+import { ExtrasConfig, PromptAnswers } from './prompts.js';
+import {
+  DATABASE,
+  DatabaseFeature,
+  FEATURES,
+  LANGUAGE,
+  PACKAGEMANAGER,
+  TESTRUNNER,
+  TestRunnerFeature,
+} from './utils.js';
+
+/**
+ * Where the preset schema is published, for the `$schema` of saved presets.
+ */
+export const PresetSchemaUrl =
+  'https://unpkg.com/@mrknown404/create-express-app/preset.schema.json';
+
+/**
+ * Project metadata of a preset. `name` is the default project folder, the
+ * other fields are written to package.json.
+ */
+export interface PresetProject {
+  name?: string;
+  version?: string;
+  description?: string;
+  author?: string;
+  license?: string;
+  private?: boolean;
+  keywords?: string[];
+}
+
+/**
+ * Answers and settings shared across projects, see `preset.schema.json`.
+ */
+export interface Preset {
+  $schema?: string;
+  language?: LANGUAGE | 'ts' | 'js';
+  features?: FEATURES[];
+  testRunner?: TESTRUNNER;
+  database?: DATABASE;
+  packageManager?: PACKAGEMANAGER;
+  extras?: ExtrasConfig;
+  project?: PresetProject;
+}
+
+/**
+ * Thrown when a preset does not match the preset schema.
+ */
+export class InvalidPresetError extends Error {
+  constructor(
+    public readonly source: string,
+    public readonly problems: string[],
+  ) {
+    super(`Invalid preset ${source}:\n${problems.map((problem) => `  ${problem}`).join('\n')}`);
+    this.name = 'InvalidPresetError';
+  }
+}
+
+/**
+ * The part of JSON schema the preset schema uses.
+ */
+interface JsonSchema {
+  type?: string;
+  enum?: unknown[];
+  properties?: Record<string, JsonSchema>;
+  additionalProperties?: boolean;
+  items?: JsonSchema;
+  uniqueItems?: boolean;
+}
+
+/**
+ * The published preset schema, shipped next to `dist`.
+ */
+export function readPresetSchema(): JsonSchema {
+  return JSON.parse(fs.readFileSync(new URL('../preset.schema.json', import.meta.url), 'utf-8'));
+}
+
+function typeOf(value: unknown) {
+  if (Array.isArray(value)) return 'array';
+  return value === null ? 'null' : typeof value;
+}
+
+function schemaProblems(value: unknown, schema: JsonSchema, at: string): string[] {
+  if (schema.type && typeOf(value) !== schema.type) {
+    return [`${at}: expected ${schema.type}, got ${typeOf(value)}`];
+  }
+  if (schema.enum && !schema.enum.includes(value)) {
+    const expected = schema.enum.map((v) => JSON.stringify(v)).join(', ');
+    return [`${at}: expected one of ${expected}, got ${JSON.stringify(value)}`];
+  }
+  const problems: string[] = [];
+  if (typeOf(value) === 'object') {
+    for (const [key, child] of Object.entries(value as object)) {
+      const property = schema.properties?.[key];
+      if (property) {
+        problems.push(...schemaProblems(child, property, `${at}.${key}`));
+      } else if (schema.additionalProperties === false) {
+        problems.push(`${at}: unknown property "${key}"`);
+      }
+    }
+  }
+  if (Array.isArray(value)) {
+    const items = schema.items;
+    if (items) {
+      value.forEach((item, i) => problems.push(...schemaProblems(item, items, `${at}[${i}]`)));
+    }
+    if (schema.uniqueItems && new Set(value.map((v) => JSON.stringify(v))).size !== value.length) {
+      problems.push(`${at}: items must be unique`);
+    }
+  }
+  return problems;
+}
+
+/**
+ * Check a preset against the preset schema.
+ * @param source - Where the preset comes from, for the error message
+ * @throws InvalidPresetError listing every problem
+ */
+export function validatePreset(value: unknown, source = 'preset'): Preset {
+  const problems = schemaProblems(value, readPresetSchema(), 'preset');
+  if (problems.length) throw new InvalidPresetError(source, problems);
+  return value as Preset;
+}
+
+/**
+ * Load and validate a preset: a JSON file, or a JS module exporting the
+ * preset as default.
+ */
+export async function loadPreset(file: string): Promise<Preset> {
+  const target = path.resolve(file);
+  if (!fs.existsSync(target)) {
+    throw new Error(`Preset ${file} not found.`);
+  }
+  let value: unknown;
+  if (/\.[cm]?js$/.test(target)) {
+    const module = await import(pathToFileURL(target).href);
+    value = module.default ?? module;
+  } else {
+    try {
+      value = JSON.parse(fs.readFileSync(target, 'utf-8'));
+    } catch (err) {
+      throw new InvalidPresetError(file, [err instanceof Error ? err.message : String(err)]);
+    }
+  }
+  return validatePreset(value, file);
+}
+
+/**
+ * Write a preset as JSON, pointing at the published schema.
+ */
+export function savePreset(file: string, preset: Preset) {
+  const { $schema = PresetSchemaUrl, ...rest } = preset;
+  fs.writeFileSync(path.resolve(file), JSON.stringify({ $schema, ...rest }, null, 2) + '\n');
+}
+
+/**
+ * The prompt answers a preset pre-fills.
+ */
+export function presetAnswers(preset: Preset): Partial<PromptAnswers> {
+  const answers: Partial<PromptAnswers> = {};
+  if (preset.language === 'ts') answers.language = LANGUAGE.TYPESCRIPT;
+  else if (preset.language === 'js') answers.language = LANGUAGE.JAVASCRIPT;
+  else if (preset.language) answers.language = preset.language;
+  if (preset.features) answers.features = preset.features;
+  if (preset.packageManager) answers.packageManager = preset.packageManager;
+  if (preset.testRunner) {
+    answers.testRunner = preset.testRunner;
+  } else if (preset.features) {
+    // a runner among the features answers the test runner question
+    const runners = Object.keys(TestRunnerFeature) as (keyof typeof TestRunnerFeature)[];
+    const runner = runners.find((r) => preset.features?.includes(TestRunnerFeature[r]));
+    if (runner) answers.testRunner = runner;
+  }
+  if (preset.database) {
+    answers.database = preset.database;
+  } else if (preset.features) {
+    const databases = Object.keys(DatabaseFeature) as (keyof typeof DatabaseFeature)[];
+    const database = databases.find((d) => preset.features?.includes(DatabaseFeature[d]));
+    if (database) answers.database = database;
+  }
+  return answers;
+}
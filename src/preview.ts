@@ -0,0 +1,112 @@
+import chalk from 'chalk';
+import { GeneratedFile } from './filesystem.js';
+
+type TreeNode = Map<string, TreeNode>;
+
+/**
+ * Render paths as a tree, in the same style as the README project structure.
+ * @param rootName - Label printed for the root
+ * @param files - Slash separated file paths relative to the root
+ * @param dirs - Directories to show even when empty
+ */
+export function renderTree(rootName: string, files: string[], dirs: string[] = []): string {
+  const root: TreeNode = new Map();
+  const dirSet = new Set(dirs);
+  for (const p of [...dirs, ...files]) {
+    let node = root;
+    for (const part of p.split('/')) {
+      if (!node.has(part)) node.set(part, new Map());
+      node = node.get(part) as TreeNode;
+    }
+  }
+  const lines = [`${rootName}/`];
+  const walk = (node: TreeNode, prefix: string, parent: string) => {
+    const isDir = (name: string) => node.get(name)!.size > 0 || dirSet.has(parent + name);
+    const entries = [...node.keys()].sort((a, b) => {
+      if (isDir(a) !== isDir(b)) return isDir(a) ? -1 : 1;
+      return a.localeCompare(b);
+    });
+    entries.forEach((name, i) => {
+      const last = i === entries.length - 1;
+      lines.push(`${prefix}${last ? '└─ ' : '├─ '}${name}${isDir(name) ? '/' : ''}`);
+      walk(node.get(name)!, prefix + (last ? '   ' : '│  '), `${parent}${name}/`);
+    });
+  };
+  walk(root, '', '');
+  return lines.join('\n');
+}
+
+export type DiffLine = { type: ' ' | '+' | '-'; line: string };
+
+/**
+ * Line based diff (longest common subsequence). Generated files are small,
+ * so the quadratic table is fine.
+ */
+export function diffLines(before: string, after: string): DiffLine[] {
+  const a = before.split('\n');
+  const b = after.split('\n');
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () =>
+    new Array<number>(b.length + 1).fill(0),
+  );
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+  const result: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      result.push({ type: ' ', line: a[i] });
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      result.push({ type: '-', line: a[i++] });
+    } else {
+      result.push({ type: '+', line: b[j++] });
+    }
+  }
+  while (i < a.length) result.push({ type: '-', line: a[i++] });
+  while (j < b.length) result.push({ type: '+', line: b[j++] });
+  return result;
+}
+
+/**
+ * Format a diff for the terminal, colouring added and removed lines.
+ */
+export function formatDiff(before: string, after: string): string {
+  return diffLines(before, after)
+    .map(({ type, line }) => {
+      if (type === '+') return chalk.green(`+ ${line}`);
+      if (type === '-') return chalk.red(`- ${line}`);
+      return chalk.dim(`  ${line}`);
+    })
+    .join('\n');
+}
+
+/**
+ * Format the result of a dry run: the file tree, then every file's content,
+ * or a diff when the file already exists on disk.
+ */
+export function formatDryRun(rootName: string, files: GeneratedFile[], dirs: string[] = []) {
+  const sections = [
+    renderTree(
+      rootName,
+      files.map((f) => f.path),
+      dirs,
+    ),
+  ];
+  for (const file of files) {
+    if (file.previous === undefined) {
+      sections.push(`${chalk.cyan.bold(`── ${file.path} (new)`)}\n${file.content}`);
+    } else if (file.previous === file.content) {
+      sections.push(chalk.cyan.bold(`── ${file.path} (unchanged)`));
+    } else {
+      sections.push(
+        `${chalk.cyan.bold(`── ${file.path} (modified)`)}\n${formatDiff(file.previous, file.content)}`,
+      );
+    }
+  }
+  return sections.join('\n\n');
+}
@@ -1,30 +1,98 @@
-import { Feature, FEATURES, LANGUAGE } from './utils.js';
+import type { DistinctQuestion } from 'inquirer';
+import {
+  DATABASE,
+  DatabaseFeature,
+  detectPackageManager,
+  Feature,
+  FEATURES,
+  LANGUAGE,
+  PACKAGEMANAGER,
+  TESTRUNNER,
+  TestRunnerFeature,
+} from './utils.js';
 
 export const FeaturesList = [
   { name: 'ESLint + Prettier', value: FEATURES.ESLINT },
   { name: 'Zod', value: FEATURES.ZOD },
+  { name: 'Logging (pino, request IDs)', value: FEATURES.LOGGING },
+  { name: 'Security (helmet, rate limiting, CORS allowlist)', value: FEATURES.SECURITY },
+  { name: 'Auth (JWT)', value: FEATURES.AUTH },
+  { name: 'Docker (Dockerfile, docker-compose)', value: FEATURES.DOCKER },
   { name: 'Jest', value: FEATURES.JEST },
+  { name: 'Vitest', value: FEATURES.VITEST },
+  { name: 'Prisma', value: FEATURES.PRISMA },
+  { name: 'Drizzle', value: FEATURES.DRIZZLE },
+  { name: 'Mongoose', value: FEATURES.MONGOOSE },
 ] as const satisfies readonly Feature[];
 
+const TestRunnerFeatures: readonly string[] = Object.values(TestRunnerFeature);
+
+const DatabaseFeatures: readonly string[] = Object.values(DatabaseFeature);
+
+// test runners and databases get their own prompt
+const FeatureChoices: readonly (typeof FeaturesList)[number][] = FeaturesList.filter(
+  (feature) =>
+    !TestRunnerFeatures.includes(feature.value) && !DatabaseFeatures.includes(feature.value),
+);
+
+export const TestRunnerList = [
+  { name: 'None', value: TESTRUNNER.NONE },
+  { name: 'Jest', value: TESTRUNNER.JEST },
+  { name: 'Vitest', value: TESTRUNNER.VITEST },
+] as const;
+
+export const DatabaseList = [
+  { name: 'None', value: DATABASE.NONE },
+  { name: 'Prisma (SQLite)', value: DATABASE.PRISMA },
+  { name: 'Drizzle (SQLite)', value: DATABASE.DRIZZLE },
+  { name: 'Mongoose (MongoDB, in-memory server locally)', value: DATABASE.MONGOOSE },
+] as const;
+
 const LanguageChoices = Object.values(LANGUAGE) as readonly LANGUAGE[];
 
+const PackageManagerChoices = Object.values(PACKAGEMANAGER) as readonly PACKAGEMANAGER[];
+
 export const prompts = [
   {
     type: 'list',
     name: 'language',
     message: 'Which language do you want?',
     choices: LanguageChoices,
+    default: LANGUAGE.TYPESCRIPT,
   },
   {
     type: 'checkbox',
     name: 'features',
     message: 'Select features to include:',
-    choices: FeaturesList,
+    choices: FeatureChoices,
+    default: [],
+  },
+  {
+    type: 'list',
+    name: 'testRunner',
+    message: 'Which test runner do you want?',
+    choices: TestRunnerList,
+    default: TESTRUNNER.NONE,
+  },
+  {
+    type: 'list',
+    name: 'database',
+    message: 'Which database do you want?',
+    choices: DatabaseList,
+    default: DATABASE.NONE,
+  },
+  {
+    type: 'list',
+    name: 'packageManager',
+    message: 'Which package manager do you want to use?',
+    choices: PackageManagerChoices,
+    // the one running this script, e.g. pnpm for `pnpm create`
+    default: detectPackageManager(),
   },
 ] as const;
 
-export const InitialDependencies = ['express', 'cors', 'body-parser', 'dotenv'];
-export const InitialDevDependencies: string[] = [];
+export const InitialDependencies = ['express', 'cors', 'dotenv'];
+export const InitialDevDependencies = ['nodemon'];
 
 type ExtractChoiceValue<T> = T extends { value: infer V } ? V : T;
 
@@ -34,15 +102,106 @@ type ExtractPromptValue<T> = T extends { type: 'checkbox'; choices: readonly (in
     ? ExtractChoiceValue<C>
     : never;
 
-export type PromptAnswers = {
+type DefaultPromptAnswers = {
   [P in (typeof prompts)[number] as P['name']]: ExtractPromptValue<P>;
 };
 
+/**
+ * Answers to the prompts. `features` also holds the ids of plugins added with
+ * `builder.use()`.
+ */
+export type PromptAnswers = Omit<DefaultPromptAnswers, 'features'> & {
+  features: (FEATURES | (string & {}))[];
+};
+
+/**
+ * A question a custom builder asks after the built-in ones. Declare the
+ * questions `as const` so their answers are typed.
+ */
+export type ExtraQuestion = DistinctQuestion & { readonly name: string };
+
+export type ExtraQuestions = readonly ExtraQuestion[];
+
+type ExtractQuestionValue<T> = T extends { type: 'checkbox'; choices: readonly (infer C)[] }
+  ? ExtractChoiceValue<C>[]
+  : T extends { type: 'list' | 'rawlist' | 'expand'; choices: readonly (infer C)[] }
+    ? ExtractChoiceValue<C>
+    : T extends { type: 'confirm' }
+      ? boolean
+      : T extends { type: 'number' }
+        ? number
+        : T extends { type: 'input' | 'password' | 'editor' } | { type?: undefined }
+          ? string
+          : unknown;
+
+/**
+ * Answers to extra questions, by question name. Questions with a `when` may
+ * be left out, so their answers are optional.
+ */
+export type ExtraAnswers<Q extends ExtraQuestions> = {
+  [P in Q[number] as P extends { when: unknown } ? never : P['name']]: ExtractQuestionValue<P>;
+} & {
+  [P in Q[number] as P extends { when: unknown } ? P['name'] : never]?: ExtractQuestionValue<P>;
+};
+
+/**
+ * Answers to the prompts and to the extra questions of a custom builder.
+ */
+export type BuilderAnswers<Q extends ExtraQuestions = []> = PromptAnswers & ExtraAnswers<Q>;
+
+/**
+ * Keep `testRunner` and `features` in sync: the chosen runner is added to the
+ * features (replacing any other runner), and a runner passed only through
+ * `features` becomes the `testRunner`.
+ */
+export function resolveTestRunner<A extends PromptAnswers>(answers: A): A {
+  const features = answers.features ?? [];
+  const others = features.filter((f) => !TestRunnerFeatures.includes(f));
+  let testRunner = answers.testRunner;
+  if (!testRunner || testRunner === TESTRUNNER.NONE) {
+    const runners = Object.keys(TestRunnerFeature) as (keyof typeof TestRunnerFeature)[];
+    testRunner = runners.find((r) => features.includes(TestRunnerFeature[r])) ?? TESTRUNNER.NONE;
+  }
+  return {
+    ...answers,
+    testRunner,
+    features: testRunner === TESTRUNNER.NONE ? others : [...others, TestRunnerFeature[testRunner]],
+  };
+}
+
+/**
+ * Keep `database` and `features` in sync, like `resolveTestRunner()` does for
+ * the test runner.
+ */
+export function resolveDatabase<A extends PromptAnswers>(answers: A): A {
+  const features = answers.features ?? [];
+  const others = features.filter((f) => !DatabaseFeatures.includes(f));
+  let database = answers.database;
+  if (!database || database === DATABASE.NONE) {
+    const databases = Object.keys(DatabaseFeature) as (keyof typeof DatabaseFeature)[];
+    database = databases.find((d) => features.includes(DatabaseFeature[d])) ?? DATABASE.NONE;
+  }
+  return {
+    ...answers,
+    database,
+    features: database === DATABASE.NONE ? others : [...others, DatabaseFeature[database]],
+  };
+}
+
 export interface ExtrasConfig {
   dependencies?: string[];
   devDependencies?: string[];
 }
 
-export type IPromptOrConfig =
-  | (typeof prompts & { extras?: ExtrasConfig })
-  | (Partial<PromptAnswers> & { extras?: ExtrasConfig });
+/**
+ * Options a builder takes next to its prompts or config: packages added on
+ * top of the features, and extra questions asked after the built-in ones.
+ */
+export interface BuilderOptions<Q extends ExtraQuestions = []> {
+  extras?: ExtrasConfig;
+  questions?: Q;
+}
+
+export type IPromptOrConfig<Q extends ExtraQuestions = []> =
+  | (typeof prompts & BuilderOptions<Q>)
+  | (Partial<BuilderAnswers<Q>> & BuilderOptions<Q>);
@@ -0,0 +1,227 @@
+import chalk from 'chalk';
+import { BundledVersions } from './versions.js';
+
+export const DefaultRegistry = 'https://registry.npmjs.org';
+
+export interface RegistryClientOptions {
+  /** Registry base URL, defaults to `npm_config_registry` or the public npm registry */
+  registry?: string;
+  /** Never hit the network, resolve every version from `manifest` */
+  offline?: boolean;
+  /** Per-request timeout in milliseconds */
+  timeout?: number;
+  /** Retries after a failed request */
+  retries?: number;
+  /** Maximum number of requests in flight */
+  concurrency?: number;
+  /** Version ranges written as-is, e.g. `{ express: '4.21.2' }` */
+  pinned?: Record<string, string>;
+  /** Fallback versions for offline mode or when the registry is unreachable */
+  manifest?: Readonly<Record<string, string>>;
+}
+
+/**
+ * Thrown when a package version cannot be resolved from the registry or
+ * the bundled manifest.
+ */
+export class RegistryError extends Error {
+  constructor(
+    message: string,
+    public readonly pkg: string,
+  ) {
+    super(message);
+    this.name = 'RegistryError';
+  }
+}
+
+/**
+ * Published versions of a package, from its abbreviated packument.
+ */
+interface Packument {
+  latest: string;
+  versions: string[];
+}
+
+/**
+ * `[major, minor, patch]` of a release version, undefined for prereleases.
+ */
+function parseVersion(version: string) {
+  const match = /^(\d+)\.(\d+)\.(\d+)$/.exec(version);
+  return match ? match.slice(1).map(Number) : undefined;
+}
+
+/**
+ * Whether `version` satisfies `^base`, e.g. 5.2.0 does `^5.1.0`, 0.46.0 does not `^0.45.3`.
+ */
+function satisfiesCaret(version: string, base: string) {
+  const [v, b] = [parseVersion(version), parseVersion(base)];
+  if (!v || !b) return false;
+  // the first non-zero part is fixed
+  const fixed = b[0] > 0 ? 1 : b[1] > 0 ? 2 : 3;
+  return v.slice(0, fixed).every((part, i) => part === b[i]) && compareVersions(v, b) >= 0;
+}
+
+function compareVersions(a: number[], b: number[]) {
+  return a[0] - b[0] || a[1] - b[1] || a[2] - b[2];
+}
+
+/**
+ * Resolves package versions over HTTP. Responses are cached per client, and
+ * requests are limited, retried and timed out.
+ */
+export class RegistryClient {
+  private readonly registry: string;
+  private readonly offline: boolean;
+  private readonly timeout: number;
+  private readonly retries: number;
+  private readonly concurrency: number;
+  private readonly pinned: Record<string, string>;
+  private readonly manifest: Readonly<Record<string, string>>;
+  private cache = new Map<string, Promise<Packument>>();
+  private active = 0;
+  private queue: (() => void)[] = [];
+  private warnedFallback = false;
+
+  constructor(options: RegistryClientOptions = {}) {
+    const registry = options.registry || process.env.npm_config_registry || DefaultRegistry;
+    this.registry = registry.replace(/\/+$/, '');
+    this.offline = options.offline ?? false;
+    this.timeout = options.timeout ?? 10_000;
+    this.retries = options.retries ?? 2;
+    this.concurrency = Math.max(1, options.concurrency ?? 8);
+    this.pinned = options.pinned ?? {};
+    this.manifest = options.manifest ?? BundledVersions;
+  }
+
+  /**
+   * Latest published version of a package, e.g. `5.1.0`.
+   * Falls back to the manifest offline or when the registry is unreachable.
+   */
+  async getLatestVersion(pkg: string): Promise<string> {
+    return (await this.getPackument(pkg)).latest;
+  }
+
+  /**
+   * Version to install: the highest published one within the major of the
+   * manifest, so the packages keep working together, e.g. `9.39.1` for eslint
+   * `9.36.0` while eslint 10 is out. The manifest version when none matches,
+   * the latest for packages not in the manifest.
+   */
+  async getVersion(pkg: string): Promise<string> {
+    const { latest, versions } = await this.getPackument(pkg);
+    const bundled = this.manifest[pkg];
+    if (!bundled) return latest;
+    const matching = versions
+      .filter((version) => satisfiesCaret(version, bundled))
+      .map((version) => parseVersion(version)!);
+    if (!matching.length) return bundled;
+    return matching.reduce((a, b) => (compareVersions(a, b) >= 0 ? a : b)).join('.');
+  }
+
+  /**
+   * Range to write into package.json: the pinned range when there is one,
+   * `^<version>` otherwise.
+   */
+  async getVersionRange(pkg: string): Promise<string> {
+    if (this.pinned[pkg]) return this.pinned[pkg];
+    return `^${await this.getVersion(pkg)}`;
+  }
+
+  private getPackument(pkg: string): Promise<Packument> {
+    let packument = this.cache.get(pkg);
+    if (!packument) {
+      packument = this.resolve(pkg);
+      this.cache.set(pkg, packument);
+      // a failed lookup should not stick around in the cache
+      packument.catch(() => this.cache.delete(pkg));
+    }
+    return packument;
+  }
+
+  private async resolve(pkg: string): Promise<Packument> {
+    if (this.offline) return this.fromManifest(pkg);
+    try {
+      return await this.limit(() => this.fetchWithRetry(pkg));
+    } catch (err) {
+      if (err instanceof RegistryError) throw err;
+      if (!this.manifest[pkg]) {
+        throw new RegistryError(
+          `Could not resolve a version for "${pkg}": ${(err as Error).message}`,
+          pkg,
+        );
+      }
+      if (!this.warnedFallback) {
+        this.warnedFallback = true;
+        console.warn(
+          chalk.yellow(`Registry ${this.registry} unreachable, using bundled versions instead.`),
+        );
+      }
+      return this.fromManifest(pkg);
+    }
+  }
+
+  private fromManifest(pkg: string): Packument {
+    const version = this.manifest[pkg];
+    if (!version) {
+      throw new RegistryError(
+        `No bundled version for "${pkg}" in offline mode. Pin it with --pin ${pkg}@<version>.`,
+        pkg,
+      );
+    }
+    return { latest: version, versions: [version] };
+  }
+
+  private async fetchWithRetry(pkg: string): Promise<Packument> {
+    let lastError: unknown;
+    for (let attempt = 0; attempt <= this.retries; attempt++) {
+      if (attempt > 0) {
+        await new Promise((resolve) => setTimeout(resolve, 250 * 2 ** (attempt - 1)));
+      }
+      try {
+        return await this.fetchPackument(pkg);
+      } catch (err) {
+        lastError = err;
+        if (err instanceof RegistryError) break;
+      }
+    }
+    throw lastError;
+  }
+
+  private async fetchPackument(pkg: string): Promise<Packument> {
+    const url = `${this.registry}/${pkg.replace('/', '%2f')}`;
+    const res = await fetch(url, {
+      // the abbreviated packument, as npm install fetches it
+      headers: { accept: 'application/vnd.npm.install-v1+json; q=1.0, application/json; q=0.8' },
+      signal: AbortSignal.timeout(this.timeout),
+    });
+    if (res.status === 404) {
+      // retrying will not make the package exist
+      throw new RegistryError(`Package "${pkg}" not found in ${this.registry}`, pkg);
+    }
+    if (!res.ok) {
+      throw new Error(`${url} responded with ${res.status}`);
+    }
+    const body = (await res.json()) as { 'dist-tags'?: { latest?: unknown }; versions?: unknown };
+    const latest = body['dist-tags']?.latest;
+    if (typeof latest !== 'string') {
+      throw new Error(`${url} returned no latest version`);
+    }
+    return { latest, versions: Object.keys(body.versions ?? {}) };
+  }
+
+  private async limit<T>(task: () => Promise<T>): Promise<T> {
+    if (this.active >= this.concurrency) {
+      // the finishing task hands its slot over, so `active` stays as is
+      await new Promise<void>((resolve) => this.queue.push(resolve));
+    } else {
+      this.active++;
+    }
+    try {
+      return await task();
+    } finally {
+      const next = this.queue.shift();
+      if (next) next();
+      else this.active--;
+    }
+  }
+}
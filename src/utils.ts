@@ -1,6 +1,8 @@
 import { exec, execSync } from 'child_process';
 import fs from 'fs';
+import path from 'path';
 import { promisify } from 'util';
+import { RegistryClient } from './registry.js';
 
 export enum LANGUAGE {
   TYPESCRIPT = 'TypeScript',
@@ -47,13 +49,46 @@ export enum FEATURES {
   ESLINT = 'eslint',
   ZOD = 'zod',
   JEST = 'jest',
+  VITEST = 'vitest',
+  SECURITY = 'security',
+  LOGGING = 'logging',
+  AUTH = 'auth',
+  DOCKER = 'docker',
+  PRISMA = 'prisma',
+  DRIZZLE = 'drizzle',
+  MONGOOSE = 'mongoose',
 }
 
+export enum TESTRUNNER {
+  NONE = 'none',
+  JEST = 'jest',
+  VITEST = 'vitest',
+}
+
+export const TestRunnerFeature = {
+  [TESTRUNNER.JEST]: FEATURES.JEST,
+  [TESTRUNNER.VITEST]: FEATURES.VITEST,
+} as const;
+
+export enum DATABASE {
+  NONE = 'none',
+  PRISMA = 'prisma',
+  DRIZZLE = 'drizzle',
+  MONGOOSE = 'mongoose',
+}
+
+export const DatabaseFeature = {
+  [DATABASE.PRISMA]: FEATURES.PRISMA,
+  [DATABASE.DRIZZLE]: FEATURES.DRIZZLE,
+  [DATABASE.MONGOOSE]: FEATURES.MONGOOSE,
+} as const;
+
 export const execAsync = promisify(exec);
 
+const defaultRegistryClient = new RegistryClient();
+
 export async function getLatestVersion(pkg: string): Promise<string> {
-  const { stdout } = await execAsync(`npm view ${pkg} version`);
-  return stdout.trim();
+  return defaultRegistryClient.getLatestVersion(pkg);
 }
 
 export function cleanup(projectPath: string) {
@@ -72,6 +107,50 @@ export function detectPackageManager(): PACKAGEMANAGER {
   return PACKAGEMANAGER.NPM;
 }
 
+export const LockFiles: Record<PACKAGEMANAGER, string[]> = {
+  [PACKAGEMANAGER.YARN]: ['yarn.lock'],
+  [PACKAGEMANAGER.NPM]: ['package-lock.json'],
+  [PACKAGEMANAGER.PNPM]: ['pnpm-lock.yaml'],
+  [PACKAGEMANAGER.BUN]: ['bun.lock', 'bun.lockb'],
+};
+
+/**
+ * Detect the package manager of an existing project from its lockfile,
+ * falling back to the one running this script.
+ */
+export function detectProjectPackageManager(projectPath: string): PACKAGEMANAGER {
+  for (const pm of Object.values(PACKAGEMANAGER)) {
+    if (LockFiles[pm].some((file) => fs.existsSync(path.join(projectPath, file)))) {
+      return pm;
+    }
+  }
+  return detectPackageManager();
+}
+
+/**
+ * Whether a command is on PATH, checked by asking it for its version.
+ */
+export async function commandExists(command: string): Promise<boolean> {
+  try {
+    await execAsync(`${command} --version`);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Whether a directory is inside a git work tree, e.g. a monorepo.
+ */
+export async function isInsideGitRepo(cwd: string): Promise<boolean> {
+  try {
+    const { stdout } = await execAsync('git rev-parse --is-inside-work-tree', { cwd });
+    return stdout.trim() === 'true';
+  } catch {
+    return false;
+  }
+}
+
 export function runInstallScript() {
   const pm = detectPackageManager();
   execSync(InstallCommands[pm]);
@@ -82,7 +161,7 @@ export function getFileExtension(lang: LANGUAGE): EXTENSIONS {
 }
 
 export function returnDirs(lang: LANGUAGE) {
-  const dirs = ['routes', 'middlewares', 'controllers', 'schemas'];
+  const dirs = ['routes', 'middlewares', 'controllers', 'schemas', 'utils'];
   if (lang === LANGUAGE.TYPESCRIPT) dirs.push('types');
   return dirs;
 }
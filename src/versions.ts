@@ -0,0 +1,49 @@
+/**
+ * Versions used when the registry cannot be reached (or in offline mode).
+ * These are a set known to build and run together; keep every package the
+ * builder can add in here, and bump them together.
+ */
+export const BundledVersions: Readonly<Record<string, string>> = {
+  // runtime
+  express: '5.1.0',
+  cors: '2.8.5',
+  dotenv: '16.6.1',
+  zod: '3.25.76',
+  helmet: '8.3.0',
+  'express-rate-limit': '8.7.0',
+  pino: '10.4.0',
+  'pino-http': '11.0.0',
+  jsonwebtoken: '9.0.3',
+  '@prisma/client': '7.10.0',
+  '@prisma/adapter-libsql': '7.10.0',
+  '@libsql/client': '0.18.0',
+  'drizzle-orm': '0.45.3',
+  mongoose: '9.10.4',
+  // dev
+  nodemon: '3.1.14',
+  tsx: '4.23.15',
+  'pino-pretty': '13.1.3',
+  prisma: '7.10.0',
+  'drizzle-kit': '0.31.11',
+  'mongodb-memory-server': '11.3.0',
+  // typescript
+  typescript: '5.9.2',
+  '@types/express': '5.0.3',
+  '@types/cors': '2.8.19',
+  '@types/jsonwebtoken': '9.0.10',
+  'tsc-alias': '1.8.16',
+  // eslint
+  eslint: '9.36.0',
+  '@eslint/js': '9.36.0',
+  globals: '16.4.0',
+  prettier: '3.6.2',
+  'typescript-eslint': '8.44.1',
+  // testing
+  jest: '30.1.3',
+  '@types/jest': '30.0.0',
+  'ts-jest': '29.4.4',
+  supertest: '7.1.4',
+  '@types/supertest': '6.0.3',
+  vitest: '3.2.4',
+  '@vitest/coverage-v8': '3.2.4',
+};
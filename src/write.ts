@@ -1,50 +1,84 @@
-import fs from 'fs';
-import { getFileExtension, LANGUAGE, FEATURES } from './utils.js';
+import { getFileExtension, LANGUAGE, FEATURES, DatabaseFeature } from './utils.js';
 import {
   returnAppFile,
+  returnAsyncHandlerFile,
   returnControllerData,
+  returnConfigFile,
+  returnEnvFile,
+  returnEnvHelperFile,
+  returnErrorMiddleware,
+  returnExpressTypes,
+  returnHealthFile,
+  returnHealthRoute,
+  returnHttpErrorFile,
   returnIndexFile,
+  returnNodemonConfig,
   returnRouteData,
   returnSchemaFile,
+  returnShutdownFile,
+  returnValidateMiddleware,
+  ResourceSchema,
+  AppInjections,
+  BaseEnvVars,
+  EnvVar,
 } from './data.js';
 import { PromptAnswers } from './prompts.js';
+import { DiskFileSystem, FileSystem } from './filesystem.js';
+import {
+  BuiltinPlugins,
+  FeaturePlugin,
+  mergeAppInjections,
+  resolvePlugin,
+  SecurityPlugin,
+  EslintPlugin,
+} from './features.js';
 
 export class WriteFiles {
   private language: LANGUAGE;
-  private features: FEATURES[];
+  private features: string[];
+  private fileSystem: FileSystem;
+  private answers: PromptAnswers;
 
-  constructor(answers: PromptAnswers) {
+  /**
+   * @param answers - Collected prompt answers
+   * @param fileSystem - Where files are written, defaults to disk at the current directory
+   */
+  constructor(answers: PromptAnswers, fileSystem: FileSystem = new DiskFileSystem(process.cwd())) {
+    this.answers = answers;
     this.language = answers.language;
     this.features = answers.features;
+    this.fileSystem = fileSystem;
+  }
+
+  /**
+   * Every generated file ends with a single newline
+   */
+  private writeFile(filePath: string, content: string) {
+    this.fileSystem.writeFile(filePath, content && content.replace(/\n*$/, '\n'));
   }
 
   writeGitignore() {
-    fs.writeFileSync(
+    // the SQLite databases of Prisma and Drizzle
+    const sqlite =
+      this.features?.includes(FEATURES.PRISMA) || this.features?.includes(FEATURES.DRIZZLE);
+    this.writeFile(
       '.gitignore',
       `node_modules
 dist
 bin
+coverage
 
-*.local`,
+.env
+*.local${sqlite ? '\n\n*.db\n*.db-journal' : ''}`,
     );
   }
 
   writeEslintFiles() {
-    fs.writeFileSync(
-      '.eslintrc.js',
-      `module.exports = {
-  parser: "${this.language === LANGUAGE.TYPESCRIPT ? '@typescript-eslint/parser' : 'espree'}",
-  extends: [
-    "eslint:recommended"${this.language === LANGUAGE.TYPESCRIPT ? ', "plugin:@typescript-eslint/recommended"' : ''}
-  ],
-  rules: {}
-};`,
-    );
-    fs.writeFileSync('.prettierrc', JSON.stringify({ semi: true, trailingComma: 'all' }, null, 2));
+    this.writeFeatureFiles(EslintPlugin);
   }
 
   writeTsConfig() {
-    fs.writeFileSync(
+    this.writeFile(
       'tsconfig.json',
       JSON.stringify(
         {
@@ -55,6 +89,7 @@ bin
             esModuleInterop: true,
             skipLibCheck: true,
             forceConsistentCasingInFileNames: true,
+            rootDir: 'src',
             outDir: 'dist',
             paths: {
               '@/*': ['./src/*'],
@@ -68,29 +103,124 @@ bin
     );
   }
 
-  writeAppFile() {
-    fs.writeFileSync('src/app' + getFileExtension(this.language), returnAppFile(this.language));
+  /**
+   * @param injections - Code features add to the app, defaults to the additions
+   * of the selected built-in features
+   */
+  writeAppFile(injections?: AppInjections) {
+    const selected = BuiltinPlugins.filter((plugin) => this.features?.includes(plugin.id));
+    this.writeFile(
+      'src/app' + getFileExtension(this.language),
+      returnAppFile(
+        this.language,
+        injections ??
+          mergeAppInjections(
+            selected.map((plugin) => resolvePlugin(plugin, this.featureContext()).app),
+          ),
+      ),
+    );
+  }
+
+  writeNodemonConfig() {
+    this.writeFile('nodemon.json', returnNodemonConfig(this.language));
   }
 
   writeIndexFile() {
-    fs.writeFileSync('src/index' + getFileExtension(this.language), returnIndexFile(this.language));
+    this.writeFile(
+      'src/index' + getFileExtension(this.language),
+      returnIndexFile(
+        this.language,
+        this.features?.includes(FEATURES.LOGGING),
+        Object.values(DatabaseFeature).some((feature) => this.features?.includes(feature)),
+      ),
+    );
+  }
+
+  /**
+   * The `src/config` module validating the base and `featureEnv` variables at
+   * startup, plus `.env.example` and the `.env.development` / `.env.test` files with values
+   */
+  writeConfigFiles(featureEnv: EnvVar[] = []) {
+    const zod = this.features?.includes(FEATURES.ZOD);
+    const ext = getFileExtension(this.language);
+    this.writeFile('src/config/env' + ext, returnEnvHelperFile(this.language, zod));
+    this.writeFile(
+      'src/config/index' + ext,
+      returnConfigFile(this.language, zod, 'config', BaseEnvVars, {
+        isProduction: 'env.NODE_ENV === "production"',
+      }),
+    );
+    const variables = [...BaseEnvVars, ...featureEnv];
+    this.writeFile('.env.example', returnEnvFile(variables));
+    for (const environment of ['development', 'test'] as const) {
+      // no file for an environment without values of its own
+      if (!variables.some((v) => v[environment] !== undefined)) continue;
+      this.writeFile(`.env.${environment}`, returnEnvFile(variables, environment));
+    }
+  }
+
+  /**
+   * A feature's own config module, `src/config/<name>` exporting `<name>Config`
+   */
+  writeConfigModule(name: string, variables: EnvVar[]) {
+    const zod = this.features?.includes(FEATURES.ZOD);
+    const ext = getFileExtension(this.language);
+    if (!this.fileSystem.exists('src/config/env' + ext)) {
+      this.writeFile('src/config/env' + ext, returnEnvHelperFile(this.language, zod));
+    }
+    this.writeFile(
+      `src/config/${name}${ext}`,
+      returnConfigFile(this.language, zod, `${name}Config`, variables),
+    );
+  }
+
+  /**
+   * `HttpError`, the `asyncHandler` wrapper and the 404 / error middlewares
+   */
+  writeErrorHandling() {
+    const ext = getFileExtension(this.language);
+    this.writeFile('src/utils/http-error' + ext, returnHttpErrorFile(this.language));
+    this.writeFile('src/utils/async-handler' + ext, returnAsyncHandlerFile(this.language));
+    this.writeFile(
+      'src/middlewares/error' + ext,
+      returnErrorMiddleware(this.language, this.features?.includes(FEATURES.LOGGING)),
+    );
+  }
+
+  /**
+   * The readiness registry, the `/health` routes and the graceful shutdown
+   */
+  writeHealthFiles() {
+    const ext = getFileExtension(this.language);
+    const logging = this.features?.includes(FEATURES.LOGGING);
+    this.writeFile('src/utils/health' + ext, returnHealthFile(this.language));
+    this.writeFile('src/routes/health' + ext, returnHealthRoute(this.language));
+    this.writeFile('src/utils/shutdown' + ext, returnShutdownFile(this.language, logging));
   }
 
   writePingRoute() {
     const filepath = 'src/routes/' + 'ping' + getFileExtension(this.language);
-    fs.writeFileSync(filepath, returnRouteData(this.language, 'ping'));
+    this.writeFile(filepath, returnRouteData(this.language, 'ping'));
+  }
+
+  /**
+   * Schema the sample resource validates its POST body with, when Zod is selected
+   */
+  private get sampleSchema(): ResourceSchema | undefined {
+    if (!this.features?.includes(FEATURES.ZOD)) return undefined;
+    return { name: 'SampleSchema', module: 'schemas/index' };
   }
 
   writeSampleRoute() {
     const filepath = 'src/routes/' + 'sample' + getFileExtension(this.language);
-    fs.writeFileSync(filepath, returnRouteData(this.language, 'sample'));
+    this.writeFile(filepath, returnRouteData(this.language, 'sample', this.sampleSchema));
   }
 
   writeRoutesFile() {
     const filepath = 'src/routes/' + 'index' + getFileExtension(this.language);
     this.writePingRoute();
     this.writeSampleRoute();
-    fs.writeFileSync(
+    this.writeFile(
       filepath,
       `import { Router } from 'express';
 import { pingRoute } from './ping${this.language != LANGUAGE.TYPESCRIPT ? '.js' : ''}';
@@ -108,16 +238,22 @@ export default router;
 
   writeSampleController() {
     const filepath = 'src/controllers/' + 'sample' + getFileExtension(this.language);
-    fs.writeFileSync(filepath, returnControllerData(this.language, 'sample'));
+    this.writeFile(filepath, returnControllerData(this.language, 'sample', this.sampleSchema));
   }
 
   writeControllersFile() {
     const filepath = 'src/controllers/' + 'index' + getFileExtension(this.language);
     this.writeSampleController();
+    const sampleControllers = this.sampleSchema
+      ? 'SampleController, CreateSampleController'
+      : 'SampleController';
+    const createSample = this.sampleSchema
+      ? '\n    createSampleController = CreateSampleController;'
+      : '';
     let content;
     if (this.language === LANGUAGE.TYPESCRIPT) {
       content = `import { Request, Response } from "express";
-import { SampleController } from "./sample";
+import { ${sampleControllers} } from "./sample";
 
 export class ControllerClass {
     constructor() {
@@ -125,16 +261,16 @@ export class ControllerClass {
     }
 
     async pingController(req: Request, res: Response) {
-        return res.status(201).json({ message: "Server running" });
+        return res.status(200).json({ message: "Server running" });
     }
 
-    sampleController = SampleController;
+    sampleController = SampleController;${createSample}
 }
 
 const Controllers = new ControllerClass();
 export default Controllers;\n`;
     } else {
-      content = `import { SampleController } from "./sample.js";
+      content = `import { ${sampleControllers} } from "./sample.js";
 
 export class ControllerClass {
     constructor() {
@@ -142,22 +278,60 @@ export class ControllerClass {
     }
 
     async pingController(req, res) {
-        return res.status(201).json({ message: "Server running" });
+        return res.status(200).json({ message: "Server running" });
     }
 
-    sampleController = SampleController;
+    sampleController = SampleController;${createSample}
 }
 
 const Controllers = new ControllerClass();
 export default Controllers;\n`;
     }
-    fs.writeFileSync(filepath, content);
+    this.writeFile(filepath, content);
   }
 
   writeSchemaFile() {
     if (!this.features?.includes(FEATURES.ZOD)) return;
     const filepath = 'src/schemas/' + 'index' + getFileExtension(this.language);
     const content = returnSchemaFile(this.language, 'SampleSchema');
-    fs.writeFileSync(filepath, content.trim() + '\n');
+    this.writeFile(filepath, content.trim());
+  }
+
+  /**
+   * The `validate` middleware, plus the `req.validated` typing for TypeScript
+   */
+  writeValidateMiddleware() {
+    if (!this.features?.includes(FEATURES.ZOD)) return;
+    const ext = getFileExtension(this.language);
+    this.writeFile('src/middlewares/validate' + ext, returnValidateMiddleware(this.language));
+    if (this.language === LANGUAGE.TYPESCRIPT) {
+      this.writeFile('src/types/express.d.ts', returnExpressTypes());
+    }
+  }
+
+  writeSecurityMiddleware() {
+    if (!this.features?.includes(FEATURES.SECURITY)) return;
+    this.writeFeatureFiles(SecurityPlugin);
+  }
+
+  /**
+   * Write the files of a feature plugin.
+   * @param answers - Answers to the plugin's questions
+   * @returns the paths written
+   */
+  writeFeatureFiles(plugin: FeaturePlugin, answers: Record<string, unknown> = {}) {
+    const { files } = resolvePlugin(plugin, this.featureContext(answers));
+    Object.entries(files).forEach(([file, content]) => this.writeFile(file, content));
+    return Object.keys(files);
+  }
+
+  private featureContext(answers: Record<string, unknown> = {}) {
+    return {
+      language: this.language,
+      features: this.features,
+      answers,
+      projectAnswers: this.answers,
+      fileSystem: this.fileSystem,
+    };
   }
 }
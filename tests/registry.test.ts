@@ -0,0 +1,81 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { RegistryClient, RegistryError } from '../src/registry.js';
+import { BundledVersions } from '../src/versions.js';
+
+const manifest = { eslint: '9.36.0', 'drizzle-orm': '0.45.3', zod: '3.25.76' };
+
+/**
+ * Stubs fetch with abbreviated packuments, keyed by package name.
+ */
+function stubRegistry(packuments: Record<string, { latest: string; versions: string[] }>) {
+  const fetch = vi.fn(async (url: string) => {
+    const pkg = decodeURIComponent(url.split('/').pop()!);
+    const packument = packuments[pkg];
+    if (!packument) return new Response('{}', { status: 404 });
+    const versions = Object.fromEntries(packument.versions.map((version) => [version, {}]));
+    return Response.json({ 'dist-tags': { latest: packument.latest }, versions });
+  });
+  vi.stubGlobal('fetch', fetch);
+  return fetch;
+}
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+});
+
+describe('RegistryClient', () => {
+  it('resolves from the manifest offline, without the network', async () => {
+    const fetch = stubRegistry({});
+    const client = new RegistryClient({ offline: true, manifest });
+    await expect(client.getVersionRange('eslint')).resolves.toBe('^9.36.0');
+    await expect(client.getLatestVersion('zod')).resolves.toBe('3.25.76');
+    await expect(client.getVersionRange('left-pad')).rejects.toBeInstanceOf(RegistryError);
+    expect(fetch).not.toHaveBeenCalled();
+  });
+
+  it('falls back to the manifest when the registry is unreachable', async () => {
+    vi.stubGlobal('fetch', vi.fn().mockRejectedValue(new TypeError('fetch failed')));
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const client = new RegistryClient({ retries: 0, manifest });
+    await expect(client.getVersionRange('eslint')).resolves.toBe('^9.36.0');
+    await expect(client.getVersionRange('drizzle-orm')).resolves.toBe('^0.45.3');
+    await expect(client.getVersionRange('left-pad')).rejects.toBeInstanceOf(RegistryError);
+    expect(console.warn).toHaveBeenCalledTimes(1);
+  });
+
+  it('resolves the highest version within the bundled major', async () => {
+    stubRegistry({
+      eslint: {
+        latest: '10.1.0',
+        versions: ['9.35.0', '9.36.0', '9.39.1', '10.0.0-rc.1', '10.1.0'],
+      },
+      'drizzle-orm': { latest: '0.46.0', versions: ['0.45.3', '0.45.4', '0.46.0'] },
+      zod: { latest: '4.1.0', versions: ['3.24.0', '4.0.0', '4.1.0'] },
+      'left-pad': { latest: '1.3.0', versions: ['1.2.0', '1.3.0'] },
+    });
+    const client = new RegistryClient({ manifest });
+    await expect(client.getVersionRange('eslint')).resolves.toBe('^9.39.1');
+    await expect(client.getLatestVersion('eslint')).resolves.toBe('10.1.0');
+    // 0.x majors are fixed at the minor
+    await expect(client.getVersionRange('drizzle-orm')).resolves.toBe('^0.45.4');
+    // nothing published within the major, the bundled version is kept
+    await expect(client.getVersionRange('zod')).resolves.toBe('^3.25.76');
+    await expect(client.getVersionRange('left-pad')).resolves.toBe('^1.3.0');
+  });
+
+  it('writes pinned ranges as-is', async () => {
+    const fetch = stubRegistry({});
+    const client = new RegistryClient({ pinned: { express: '4.21.2' }, manifest });
+    await expect(client.getVersionRange('express')).resolves.toBe('4.21.2');
+    expect(fetch).not.toHaveBeenCalled();
+  });
+});
+
+describe('BundledVersions', () => {
+  it('holds exact release versions', () => {
+    for (const version of Object.values(BundledVersions)) {
+      expect(version).toMatch(/^\d+\.\d+\.\d+$/);
+    }
+  });
+});